@@ -0,0 +1,252 @@
+import { useMemo, useState } from "react";
+import { Bot, Coins, RefreshCw, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Toggle } from "@/components/ui/toggle";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import type { Agent, RoleGroupedAgents } from "@/lib/agents";
+import {
+  EMPTY_AGENT_FILTERS,
+  agentRoleIndex,
+  countActiveAgentFilters,
+  distinctAgentValues,
+  filterAgents,
+  type AgentCatalogueFilters,
+  type AgentScope,
+} from "@/lib/agentCatalogue";
+import { EMPTY_AGENT_SPEND, type AgentSpendSummary } from "@/lib/agentSpend";
+import { ANALYTICS_RANGES, type AnalyticsRange } from "@/lib/creditAnalytics";
+
+const AgentRow = ({ agent, spend }: { agent: Agent; spend: AgentSpendSummary }) => (
+  <div className="flex w-full items-start gap-3 py-1">
+    <div className="w-9 h-9 shrink-0 rounded-lg bg-gradient-to-br from-blue-500 to-indigo-600 flex items-center justify-center">
+      <Bot className="h-4 w-4 text-white" />
+    </div>
+    <div className="flex-1 min-w-0">
+      <p className="font-semibold text-gray-900 truncate">{agent.name}</p>
+      {(agent.short_desc || agent.description) && (
+        <p className="text-xs text-gray-500 line-clamp-1">{agent.short_desc || agent.description}</p>
+      )}
+    </div>
+    <div className="flex shrink-0 items-center gap-1">
+      {agent.status && (
+        <Badge variant={agent.status === "active" ? "default" : "secondary"} className="text-xs">
+          {agent.status}
+        </Badge>
+      )}
+      {agent.grant_type && (
+        <Badge variant="outline" className="text-xs">
+          {agent.grant_type}
+        </Badge>
+      )}
+      {agent.is_default && <Badge className="text-xs bg-amber-100 text-amber-800">Default</Badge>}
+      <span
+        className={`ml-1 inline-flex min-w-[72px] items-center justify-end gap-1 text-xs tabular-nums ${
+          spend.spent > 0 ? "font-semibold text-red-600" : "text-muted-foreground"
+        }`}
+        title={`${spend.count} spend${spend.count !== 1 ? "s" : ""}`}
+      >
+        <Coins className="h-3 w-3" />
+        {spend.spent.toLocaleString()}
+      </span>
+    </div>
+  </div>
+);
+
+const FilterChips = ({
+  label,
+  options,
+  selected,
+  format = (value) => value,
+  onChange,
+}: {
+  label: string;
+  options: string[];
+  selected: string[];
+  format?: (value: string) => string;
+  onChange: (selected: string[]) => void;
+}) =>
+  options.length === 0 ? null : (
+    <div className="flex flex-wrap items-center gap-1">
+      <span className="mr-1 text-xs font-medium text-muted-foreground">{label}</span>
+      {options.map((option) => (
+        <Toggle
+          key={option}
+          size="sm"
+          variant="outline"
+          className="h-7 rounded-full px-3 text-xs"
+          pressed={selected.includes(option)}
+          onPressedChange={(pressed) =>
+            onChange(pressed ? [...selected, option] : selected.filter((value) => value !== option))
+          }
+        >
+          {format(option)}
+        </Toggle>
+      ))}
+    </div>
+  );
+
+interface AgentCatalogueProps {
+  allAgents: Agent[];
+  myAgents: Agent[];
+  roleGrouped: RoleGroupedAgents;
+  loading: boolean;
+  // Credits spent per agent ID over `spendRange` days
+  spend: Map<number, AgentSpendSummary>;
+  spendRange: AnalyticsRange;
+  spendLoading: boolean;
+  spendTruncated: boolean;
+  onSpendRangeChange: (range: AnalyticsRange) => void;
+  onSelect: (agent: Agent) => void;
+}
+
+export const AgentCatalogue = ({
+  allAgents,
+  myAgents,
+  roleGrouped,
+  loading,
+  spend,
+  spendRange,
+  spendLoading,
+  spendTruncated,
+  onSpendRangeChange,
+  onSelect,
+}: AgentCatalogueProps) => {
+  const [scope, setScope] = useState<AgentScope>("mine");
+  const [filters, setFilters] = useState<AgentCatalogueFilters>(EMPTY_AGENT_FILTERS);
+
+  const agents = scope === "mine" ? myAgents : allAgents;
+  const roleIndex = useMemo(() => agentRoleIndex(roleGrouped), [roleGrouped]);
+  const statuses = useMemo(() => distinctAgentValues(agents, "status"), [agents]);
+  const grantTypes = useMemo(() => distinctAgentValues(agents, "grant_type"), [agents]);
+  const matches = useMemo(() => filterAgents(agents, filters, roleIndex), [agents, filters, roleIndex]);
+  const activeCount = countActiveAgentFilters(filters);
+
+  // My agents are shown under the roles that grant them, unless a search ranks them
+  const grouped = scope === "mine" && !filters.query.trim() && Object.keys(roleGrouped).length > 0;
+  const matchingIds = new Set(matches.map((agent) => agent.id));
+
+  const update = (changes: Partial<AgentCatalogueFilters>) => setFilters((current) => ({ ...current, ...changes }));
+  const spendOf = (agent: Agent) => spend.get(agent.id) ?? EMPTY_AGENT_SPEND;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <ToggleGroup
+          type="single"
+          size="sm"
+          variant="outline"
+          value={scope}
+          onValueChange={(value) => value && setScope(value as AgentScope)}
+        >
+          <ToggleGroupItem value="mine">Through my roles ({myAgents.length})</ToggleGroupItem>
+          <ToggleGroupItem value="all">All in organization ({allAgents.length})</ToggleGroupItem>
+        </ToggleGroup>
+        {activeCount > 0 && (
+          <Button variant="ghost" size="sm" onClick={() => setFilters({ ...EMPTY_AGENT_FILTERS, query: filters.query })}>
+            <X className="mr-1 h-4 w-4" />
+            Clear filters ({activeCount})
+          </Button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-muted-foreground">
+        <span className="flex items-center gap-1">
+          <Coins className="h-3.5 w-3.5" />
+          Credits spent in the last {spendRange} days
+          {spendLoading && <RefreshCw className="ml-1 h-3 w-3 animate-spin" />}
+          {spendTruncated && " (oldest transactions not included)"}
+        </span>
+        <ToggleGroup
+          type="single"
+          size="sm"
+          variant="outline"
+          value={String(spendRange)}
+          onValueChange={(value) => value && onSpendRangeChange(Number(value) as AnalyticsRange)}
+        >
+          {ANALYTICS_RANGES.map((days) => (
+            <ToggleGroupItem key={days} value={String(days)} aria-label={`Spend in the last ${days} days`}>
+              {days}d
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+
+      <div className="space-y-2">
+        <FilterChips
+          label="Role"
+          options={Object.keys(roleGrouped)}
+          selected={filters.roleIds}
+          format={(roleId) => roleGrouped[roleId]?.role_name ?? roleId}
+          onChange={(roleIds) => update({ roleIds })}
+        />
+        <FilterChips label="Status" options={statuses} selected={filters.statuses} onChange={(s) => update({ statuses: s })} />
+        <FilterChips
+          label="Grant"
+          options={grantTypes}
+          selected={filters.grantTypes}
+          onChange={(grantTypes) => update({ grantTypes })}
+        />
+        <Toggle
+          size="sm"
+          variant="outline"
+          className="h-7 rounded-full px-3 text-xs"
+          pressed={filters.defaultOnly}
+          onPressedChange={(defaultOnly) => update({ defaultOnly })}
+        >
+          Default only
+        </Toggle>
+      </div>
+
+      <Command shouldFilter={false} className="rounded-lg border">
+        <CommandInput
+          value={filters.query}
+          onValueChange={(query) => update({ query })}
+          placeholder="Search agents by name or description..."
+        />
+        <CommandList className="max-h-[360px]">
+          {loading ? (
+            <div className="py-8 text-center text-muted-foreground">
+              <RefreshCw className="h-8 w-8 mx-auto mb-2 animate-spin opacity-50" />
+              <p className="text-sm">Loading agents...</p>
+            </div>
+          ) : (
+            <>
+              <CommandEmpty>
+                {agents.length === 0
+                  ? scope === "mine"
+                    ? "No agents found for your roles"
+                    : "No agents found"
+                  : "No agents match your search"}
+              </CommandEmpty>
+              {grouped
+                ? Object.entries(roleGrouped).map(([roleId, role]) => {
+                    const roleAgents = role.agents.filter((agent) => matchingIds.has(agent.id));
+                    if (roleAgents.length === 0) return null;
+                    return (
+                      <CommandGroup key={roleId} heading={`${role.role_name} · ${roleAgents.length}`}>
+                        {roleAgents.map((agent) => (
+                          <CommandItem key={agent.id} value={`${roleId}-${agent.id}`} onSelect={() => onSelect(agent)}>
+                            <AgentRow agent={agent} spend={spendOf(agent)} />
+                          </CommandItem>
+                        ))}
+                      </CommandGroup>
+                    );
+                  })
+                : matches.length > 0 && (
+                    <CommandGroup heading={`${matches.length} agent${matches.length !== 1 ? "s" : ""}`}>
+                      {matches.map((agent) => (
+                        <CommandItem key={agent.id} value={String(agent.id)} onSelect={() => onSelect(agent)}>
+                          <AgentRow agent={agent} spend={spendOf(agent)} />
+                        </CommandItem>
+                      ))}
+                    </CommandGroup>
+                  )}
+            </>
+          )}
+        </CommandList>
+      </Command>
+    </div>
+  );
+};
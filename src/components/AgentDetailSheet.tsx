@@ -0,0 +1,161 @@
+import type { ReactNode } from "react";
+import { format } from "date-fns";
+import { Bot, Rocket } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Separator } from "@/components/ui/separator";
+import { Sheet, SheetContent, SheetDescription, SheetFooter, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { agentRoles, agentStatusHistory, type Agent, type RoleGroupedAgents } from "@/lib/agents";
+import { EMPTY_AGENT_SPEND, type AgentSpendSummary } from "@/lib/agentSpend";
+
+const formatTimestamp = (value: string | undefined) => {
+  if (!value) return "—";
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : format(date, "MMM d, yyyy 'at' HH:mm");
+};
+
+const Section = ({ title, children }: { title: string; children: ReactNode }) => (
+  <section className="space-y-2">
+    <h4 className="text-sm font-semibold text-muted-foreground">{title}</h4>
+    {children}
+  </section>
+);
+
+interface AgentDetailSheetProps {
+  agent: Agent | null;
+  roleGrouped: RoleGroupedAgents;
+  spend: AgentSpendSummary | undefined;
+  spendRange: number;
+  embedded: boolean;
+  onOpenChange: (open: boolean) => void;
+  onLaunch: (agent: Agent) => void;
+}
+
+export const AgentDetailSheet = ({
+  agent,
+  roleGrouped,
+  spend = EMPTY_AGENT_SPEND,
+  spendRange,
+  embedded,
+  onOpenChange,
+  onLaunch,
+}: AgentDetailSheetProps) => {
+  const roles = agent ? agentRoles(agent, roleGrouped) : [];
+  const statusHistory = agent ? agentStatusHistory(agent) : [];
+
+  return (
+    <Sheet open={!!agent} onOpenChange={onOpenChange}>
+      <SheetContent className="flex w-full flex-col sm:max-w-lg">
+        {agent && (
+          <>
+            <SheetHeader>
+              <div className="flex items-center gap-3">
+                <div className="w-10 h-10 rounded-lg bg-gradient-to-br from-blue-500 to-indigo-600 flex items-center justify-center">
+                  <Bot className="h-5 w-5 text-white" />
+                </div>
+                <div className="min-w-0 text-left">
+                  <SheetTitle className="truncate">{agent.name}</SheetTitle>
+                  <SheetDescription>
+                    ID {agent.id}
+                    {agent.assistant_id && <span className="font-mono"> · {agent.assistant_id}</span>}
+                  </SheetDescription>
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-2 pt-2">
+                {agent.status && (
+                  <Badge variant={agent.status === "active" ? "default" : "secondary"}>{agent.status}</Badge>
+                )}
+                {agent.grant_type && <Badge variant="secondary">{agent.grant_type}</Badge>}
+                {agent.is_default && <Badge className="bg-amber-100 text-amber-800">Default</Badge>}
+              </div>
+            </SheetHeader>
+
+            <ScrollArea className="-mx-6 flex-1 px-6">
+              <div className="space-y-6 py-4">
+                <Section title="Description">
+                  {agent.short_desc && <p className="text-sm font-medium">{agent.short_desc}</p>}
+                  {agent.description ? (
+                    <p className="text-sm text-gray-700 whitespace-pre-line">{agent.description}</p>
+                  ) : (
+                    !agent.short_desc && <p className="text-sm italic text-gray-400">No description provided</p>
+                  )}
+                </Section>
+
+                <Separator />
+
+                <Section title={`Credits spent · last ${spendRange} days`}>
+                  <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+                    <dt className="text-muted-foreground">Total</dt>
+                    <dd className="font-semibold">{spend.spent.toLocaleString()} credits</dd>
+                    <dt className="text-muted-foreground">Spends</dt>
+                    <dd>{spend.count.toLocaleString()}</dd>
+                    <dt className="text-muted-foreground">Last spend</dt>
+                    <dd>{formatTimestamp(spend.lastSpentAt ?? undefined)}</dd>
+                  </dl>
+                </Section>
+
+                <Separator />
+
+                <Section title="Granted through">
+                  {roles.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">None of your roles grant this agent</p>
+                  ) : (
+                    <div className="flex flex-wrap gap-2">
+                      {roles.map((role) => (
+                        <Badge key={role.roleId} variant="outline" className="bg-emerald-50 text-emerald-800">
+                          {role.roleName}
+                          <span className="ml-1 text-muted-foreground">#{role.roleId}</span>
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                </Section>
+
+                <Separator />
+
+                <Section title="Status history">
+                  {statusHistory.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No status recorded</p>
+                  ) : (
+                    <ol className="space-y-2 border-l pl-4">
+                      {statusHistory.map((change, i) => (
+                        <li key={`${change.status}-${change.at ?? i}`} className="text-sm">
+                          <span className="font-medium">{change.status}</span>
+                          <span className="ml-2 text-muted-foreground">{formatTimestamp(change.at)}</span>
+                        </li>
+                      ))}
+                    </ol>
+                  )}
+                </Section>
+
+                <Separator />
+
+                <Section title="Timestamps">
+                  <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+                    <dt className="text-muted-foreground">Created</dt>
+                    <dd>{formatTimestamp(agent.created_at)}</dd>
+                    <dt className="text-muted-foreground">Updated</dt>
+                    <dd>{formatTimestamp(agent.updated_at)}</dd>
+                  </dl>
+                </Section>
+              </div>
+            </ScrollArea>
+
+            <SheetFooter>
+              <Button
+                className="w-full bg-gradient-primary hover:opacity-90"
+                disabled={!agent.assistant_id}
+                onClick={() => onLaunch(agent)}
+                title={agent.assistant_id ? undefined : "This agent has no assistant to open"}
+              >
+                <Rocket className="mr-2 h-4 w-4" />
+                {embedded ? "Launch in app" : "Launch"}
+              </Button>
+            </SheetFooter>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
@@ -0,0 +1,180 @@
+import { useMemo, useState } from "react";
+import { Bar, BarChart, CartesianGrid, Cell, Line, LineChart, Pie, PieChart, XAxis, YAxis } from "recharts";
+import { BarChart3, Loader2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { useHistoryRangeQuery, type CreditsSource } from "@/hooks/use-credits";
+import {
+  ANALYTICS_RANGES,
+  DEFAULT_ANALYTICS_RANGE,
+  breakdownByType,
+  buildDailySeries,
+  spendByPrefix,
+  type AnalyticsRange,
+  type BreakdownEntry,
+} from "@/lib/creditAnalytics";
+
+const dailyConfig = {
+  balance: { label: "Balance", color: "hsl(var(--primary))" },
+  spent: { label: "Spent", color: "#ef4444" },
+  added: { label: "Added", color: "#10b981" },
+} satisfies ChartConfig;
+
+const PALETTE = ["#6366f1", "#10b981", "#ef4444", "#f59e0b", "#06b6d4", "#8b5cf6", "#ec4899", "#64748b"];
+
+const breakdownConfig = (entries: BreakdownEntry[]): ChartConfig =>
+  Object.fromEntries(
+    entries.map((entry, i) => [entry.key, { label: entry.label, color: PALETTE[i % PALETTE.length] }])
+  );
+
+const BreakdownList = ({ entries }: { entries: BreakdownEntry[] }) => (
+  <ul className="space-y-2 text-sm">
+    {entries.map((entry, i) => (
+      <li key={entry.key} className="flex items-center gap-2">
+        <span className="h-3 w-3 shrink-0 rounded-sm" style={{ backgroundColor: PALETTE[i % PALETTE.length] }} />
+        <span className="flex-1 truncate" title={entry.label}>
+          {entry.label}
+        </span>
+        <span className="text-muted-foreground">{entry.count}×</span>
+        <span className="w-24 text-right font-medium">{entry.amount.toLocaleString()}</span>
+      </li>
+    ))}
+  </ul>
+);
+
+interface CreditAnalyticsCardProps<A> {
+  source: CreditsSource<A>;
+  orgId: number | undefined;
+  enabled: boolean;
+  currentBalance: number | null;
+}
+
+export const CreditAnalyticsCard = <A,>({ source, orgId, enabled, currentBalance }: CreditAnalyticsCardProps<A>) => {
+  const [range, setRange] = useState<AnalyticsRange>(DEFAULT_ANALYTICS_RANGE);
+  const rangeQuery = useHistoryRangeQuery(source, orgId, range, { enabled });
+  const transactions = useMemo(() => rangeQuery.data?.transactions ?? [], [rangeQuery.data]);
+
+  const daily = useMemo(
+    () => buildDailySeries(transactions, range, currentBalance),
+    [transactions, range, currentBalance]
+  );
+  const byType = useMemo(() => breakdownByType(transactions), [transactions]);
+  const byPrefix = useMemo(() => spendByPrefix(transactions), [transactions]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            <BarChart3 className="h-5 w-5" />
+            📈 Analytics
+            {rangeQuery.isFetching && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+          </span>
+          <ToggleGroup
+            type="single"
+            size="sm"
+            variant="outline"
+            value={String(range)}
+            onValueChange={(value) => value && setRange(Number(value) as AnalyticsRange)}
+          >
+            {ANALYTICS_RANGES.map((days) => (
+              <ToggleGroupItem key={days} value={String(days)} aria-label={`Last ${days} days`}>
+                {days}d
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        </CardTitle>
+        <CardDescription>
+          {transactions.length.toLocaleString()} transactions in the last {range} days
+          {rangeQuery.data?.truncated ? " (older transactions in the range were not loaded)" : ""}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {rangeQuery.error ? (
+          <p className="text-sm text-red-600">Failed to load analytics: {rangeQuery.error.message}</p>
+        ) : (
+          <Tabs defaultValue="balance">
+            <TabsList>
+              <TabsTrigger value="balance">Balance</TabsTrigger>
+              <TabsTrigger value="daily">Spend vs. Add</TabsTrigger>
+              <TabsTrigger value="breakdown">Breakdown</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="balance">
+              <ChartContainer config={dailyConfig} className="h-[280px] w-full aspect-auto">
+                <LineChart data={daily} margin={{ left: 8, right: 8 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={24} />
+                  <YAxis tickLine={false} axisLine={false} width={56} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Line
+                    dataKey="balance"
+                    type="stepAfter"
+                    stroke="var(--color-balance)"
+                    strokeWidth={2}
+                    dot={false}
+                    connectNulls
+                  />
+                </LineChart>
+              </ChartContainer>
+            </TabsContent>
+
+            <TabsContent value="daily">
+              <ChartContainer config={dailyConfig} className="h-[280px] w-full aspect-auto">
+                <BarChart data={daily} margin={{ left: 8, right: 8 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={24} />
+                  <YAxis tickLine={false} axisLine={false} width={56} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar dataKey="spent" fill="var(--color-spent)" radius={[4, 4, 0, 0]} />
+                  <Bar dataKey="added" fill="var(--color-added)" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ChartContainer>
+            </TabsContent>
+
+            <TabsContent value="breakdown">
+              {transactions.length === 0 ? (
+                <p className="py-12 text-center text-muted-foreground">📭 No transactions in this range</p>
+              ) : (
+                <div className="grid gap-6 md:grid-cols-2">
+                  <div className="space-y-3">
+                    <h4 className="text-sm font-semibold">By type</h4>
+                    <ChartContainer config={breakdownConfig(byType)} className="mx-auto h-[200px] aspect-square">
+                      <PieChart>
+                        <ChartTooltip content={<ChartTooltipContent nameKey="key" hideLabel />} />
+                        <Pie data={byType} dataKey="amount" nameKey="key" innerRadius={50}>
+                          {byType.map((entry, i) => (
+                            <Cell key={entry.key} fill={PALETTE[i % PALETTE.length]} />
+                          ))}
+                        </Pie>
+                      </PieChart>
+                    </ChartContainer>
+                    <BreakdownList entries={byType} />
+                  </div>
+                  <div className="space-y-3">
+                    <h4 className="text-sm font-semibold">Spend by description</h4>
+                    {byPrefix.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">No spends in this range</p>
+                    ) : (
+                      <BreakdownList entries={byPrefix} />
+                    )}
+                  </div>
+                </div>
+              )}
+            </TabsContent>
+          </Tabs>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
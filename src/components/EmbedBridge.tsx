@@ -0,0 +1,52 @@
+import { useNavigate } from "react-router-dom";
+import { useTheme } from "next-themes";
+import { useAuth } from "@/contexts/AuthContext";
+import { useEmbedMessage } from "@/hooks/use-embed-message";
+import { setTokens } from "@/lib/tokenManager";
+
+// Applies live session, organization, theme and navigation changes pushed by the parent window.
+// Renders nothing; mounted once inside the router so it can navigate.
+export const EmbedBridge = () => {
+  const { mode, logout, selectOrganization } = useAuth();
+  const { setTheme } = useTheme();
+  const navigate = useNavigate();
+  const enabled = mode === "embedded";
+
+  useEmbedMessage(
+    "TOKEN_REFRESHED",
+    ({ payload }) => {
+      if (payload.token) {
+        setTokens(payload.token, payload.refreshToken);
+      }
+    },
+    enabled
+  );
+
+  useEmbedMessage("LOGOUT", () => logout(), enabled);
+
+  useEmbedMessage(
+    "ORG_CHANGED",
+    ({ payload }) => {
+      const organizationId = Number(payload.organizationId);
+      if (!Number.isNaN(organizationId)) {
+        selectOrganization(organizationId);
+      }
+    },
+    enabled
+  );
+
+  useEmbedMessage("THEME_CHANGED", ({ payload }) => setTheme(payload.theme), enabled);
+
+  useEmbedMessage(
+    "NAVIGATE",
+    ({ payload }) => {
+      // Only in-app paths; the parent cannot send us to another site
+      if (typeof payload.path === "string" && payload.path.startsWith("/") && !payload.path.startsWith("//")) {
+        navigate(payload.path);
+      }
+    },
+    enabled
+  );
+
+  return null;
+};
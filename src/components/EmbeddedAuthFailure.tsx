@@ -0,0 +1,75 @@
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { AlertTriangle, RefreshCw, ShieldAlert } from "lucide-react";
+
+export type EmbeddedAuthDiagnostics = {
+  parentOrigin: string | null;
+  parentAllowed: boolean;
+  messagesReceived: number;
+  attempts: number;
+  timeoutMs: number;
+  parentProtocolVersion: number | null;
+};
+
+export type EmbeddedAuthFailureReason = "parent-not-allowed" | "timeout" | "rejected";
+
+interface EmbeddedAuthFailureProps {
+  reason: EmbeddedAuthFailureReason;
+  diagnostics: EmbeddedAuthDiagnostics;
+  error?: string | null;
+  onRetry?: () => void;
+}
+
+const TITLES: Record<EmbeddedAuthFailureReason, string> = {
+  "parent-not-allowed": "Embedding not allowed",
+  timeout: "No response from parent application",
+  rejected: "Authentication failed",
+};
+
+const DESCRIPTIONS: Record<EmbeddedAuthFailureReason, string> = {
+  "parent-not-allowed":
+    "This application can only be embedded by an approved parent application, so authentication has been disabled.",
+  timeout: "The parent application did not send your session in time. Make sure you are signed in there and retry.",
+  rejected: "The parent application refused to share your session.",
+};
+
+// Failure screen for embedded (iframe) authentication, with the details support needs to diagnose it
+export const EmbeddedAuthFailure = ({ reason, diagnostics, error, onRetry }: EmbeddedAuthFailureProps) => {
+  const Icon = reason === "parent-not-allowed" ? ShieldAlert : AlertTriangle;
+  const rows: [string, string][] = [
+    ["Detected parent origin", diagnostics.parentOrigin || "unknown"],
+    ["Origin allowed", diagnostics.parentAllowed ? "Yes" : "No"],
+    ["Messages received", String(diagnostics.messagesReceived)],
+    ["Token requests sent", String(diagnostics.attempts)],
+    ["Timeout per request", `${(diagnostics.timeoutMs / 1000).toLocaleString()}s`],
+    ["Parent protocol", diagnostics.parentProtocolVersion === null ? "legacy / unknown" : `v${diagnostics.parentProtocolVersion}`],
+  ];
+
+  return (
+    <div className="min-h-screen bg-gradient-hero flex items-center justify-center p-4">
+      <Card className="w-full max-w-md p-8 border-2 shadow-premium">
+        <div className="flex flex-col items-center text-center">
+          <Icon className="h-12 w-12 text-destructive mb-4" />
+          <h2 className="text-xl font-semibold mb-2">{TITLES[reason]}</h2>
+          <p className="text-muted-foreground">{error || DESCRIPTIONS[reason]}</p>
+
+          <dl className="mt-4 w-full rounded-lg bg-muted p-3 text-left text-sm space-y-1">
+            {rows.map(([label, value]) => (
+              <div key={label} className="flex justify-between gap-4">
+                <dt className="font-semibold">{label}</dt>
+                <dd className="font-mono break-all text-right">{value}</dd>
+              </div>
+            ))}
+          </dl>
+
+          {onRetry && reason !== "parent-not-allowed" && (
+            <Button onClick={onRetry} className="mt-6 bg-gradient-primary hover:opacity-90 shadow-premium">
+              <RefreshCw className="mr-2 h-4 w-4" />
+              Retry
+            </Button>
+          )}
+        </div>
+      </Card>
+    </div>
+  );
+};
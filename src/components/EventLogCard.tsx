@@ -0,0 +1,122 @@
+import { useMemo, useState } from "react";
+import { Download, Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Toggle } from "@/components/ui/toggle";
+import { useEventLog } from "@/hooks/use-event-log";
+import { downloadFile } from "@/lib/download";
+import {
+  EMPTY_LOG_FILTERS,
+  EVENT_LOG_CAPACITY,
+  LOG_LEVELS,
+  eventLogFileName,
+  filterLogEntries,
+  toNdjson,
+  type LogFilters,
+  type LogLevel,
+} from "@/lib/eventLog";
+
+const LEVEL_STYLES: Record<LogLevel, string> = {
+  info: "bg-blue-50 border-l-blue-500 text-blue-900",
+  success: "bg-emerald-50 border-l-emerald-500 text-emerald-900",
+  warning: "bg-yellow-50 border-l-yellow-500 text-yellow-900",
+  error: "bg-red-50 border-l-red-500 text-red-900",
+};
+
+interface EventLogCardProps {
+  onClear: () => void;
+}
+
+export const EventLogCard = ({ onClear }: EventLogCardProps) => {
+  const entries = useEventLog();
+  const [filters, setFilters] = useState<LogFilters>(EMPTY_LOG_FILTERS);
+  const visible = useMemo(() => filterLogEntries(entries, filters), [entries, filters]);
+  const filtered = filters.levels.length > 0 || !!filters.query.trim();
+
+  const countByLevel = useMemo(() => {
+    const counts: Record<LogLevel, number> = { info: 0, success: 0, warning: 0, error: 0 };
+    entries.forEach((entry) => (counts[entry.level] += 1));
+    return counts;
+  }, [entries]);
+
+  const toggleLevel = (level: LogLevel, pressed: boolean) =>
+    setFilters((current) => ({
+      ...current,
+      levels: pressed ? [...current.levels, level] : current.levels.filter((value) => value !== level),
+    }));
+
+  // Exports what is shown, so a filtered view gives a filtered file
+  const handleExport = () => downloadFile(toNdjson(visible), eventLogFileName(), "application/x-ndjson");
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="text-xl">📋 Event Logs</span>
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" onClick={handleExport} disabled={visible.length === 0}>
+              <Download className="mr-2 h-4 w-4" />
+              Export NDJSON
+            </Button>
+            <Button size="sm" variant="outline" onClick={onClear}>
+              Clear Logs
+            </Button>
+          </div>
+        </CardTitle>
+        <CardDescription>
+          {filtered ? `${visible.length} of ${entries.length}` : entries.length} events · keeps the latest{" "}
+          {EVENT_LOG_CAPACITY.toLocaleString()}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          {LOG_LEVELS.map((level) => (
+            <Toggle
+              key={level}
+              size="sm"
+              variant="outline"
+              className="h-7 rounded-full px-3 text-xs capitalize"
+              pressed={filters.levels.includes(level)}
+              onPressedChange={(pressed) => toggleLevel(level, pressed)}
+            >
+              {level} ({countByLevel[level]})
+            </Toggle>
+          ))}
+          <div className="relative ml-auto min-w-[200px] flex-1 sm:flex-none">
+            <Search className="absolute left-2.5 top-2 h-4 w-4 text-muted-foreground" />
+            <Input
+              value={filters.query}
+              onChange={(e) => setFilters((current) => ({ ...current, query: e.target.value }))}
+              placeholder="Filter messages..."
+              className="h-8 pl-8"
+            />
+          </div>
+        </div>
+
+        <ScrollArea className="h-[400px] rounded-lg border bg-gray-50 p-4 font-mono text-sm">
+          {visible.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              {entries.length === 0 ? "No logs yet" : "No events match the filters"}
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {visible.map((entry) => (
+                <div
+                  key={entry.seq}
+                  className={`p-3 rounded border-l-4 animate-in slide-in-from-left ${LEVEL_STYLES[entry.level]}`}
+                >
+                  <span className="text-xs text-muted-foreground mr-2" title={entry.timestamp}>
+                    [{new Date(entry.timestamp).toLocaleTimeString()}]
+                  </span>
+                  <span>{entry.message}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,171 @@
+import { useEffect, useState } from "react";
+import { format, parseISO } from "date-fns";
+import type { DateRange } from "react-day-picker";
+import { CalendarIcon, ChevronDown, Search, X } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  EMPTY_HISTORY_FILTERS,
+  TRANSACTION_TYPES,
+  TRANSACTION_TYPE_LABELS,
+  countActiveHistoryFilters,
+  type HistoryFilters,
+  type TransactionType,
+} from "@/lib/historyFilters";
+
+// Typing in the text fields only refetches once the user pauses
+const INPUT_DEBOUNCE_MS = 400;
+
+const toDay = (date: Date | undefined) => (date ? format(date, "yyyy-MM-dd") : undefined);
+
+const parseAmount = (value: string) => {
+  if (value.trim() === "") return undefined;
+  const amount = Number(value);
+  return Number.isFinite(amount) && amount >= 0 ? amount : undefined;
+};
+
+interface HistoryFilterBarProps {
+  filters: HistoryFilters;
+  onChange: (filters: HistoryFilters) => void;
+}
+
+export const HistoryFilterBar = ({ filters, onChange }: HistoryFilterBarProps) => {
+  const activeCount = countActiveHistoryFilters(filters);
+  const [search, setSearch] = useState(filters.search);
+  const [minAmount, setMinAmount] = useState(filters.minAmount?.toString() ?? "");
+  const [maxAmount, setMaxAmount] = useState(filters.maxAmount?.toString() ?? "");
+
+  // Pick up outside changes (e.g. Clear)
+  useEffect(() => {
+    setSearch(filters.search);
+    setMinAmount(filters.minAmount?.toString() ?? "");
+    setMaxAmount(filters.maxAmount?.toString() ?? "");
+  }, [filters.search, filters.minAmount, filters.maxAmount]);
+
+  useEffect(() => {
+    const next = { search, minAmount: parseAmount(minAmount), maxAmount: parseAmount(maxAmount) };
+    if (
+      next.search === filters.search &&
+      next.minAmount === filters.minAmount &&
+      next.maxAmount === filters.maxAmount
+    ) {
+      return;
+    }
+    const timer = setTimeout(() => onChange({ ...filters, ...next }), INPUT_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [search, minAmount, maxAmount, filters, onChange]);
+
+  const toggleType = (type: TransactionType, checked: boolean) =>
+    onChange({
+      ...filters,
+      types: checked ? [...filters.types, type] : filters.types.filter((t) => t !== type),
+    });
+
+  const range: DateRange | undefined = filters.from
+    ? { from: parseISO(filters.from), to: filters.to ? parseISO(filters.to) : undefined }
+    : undefined;
+
+  const rangeLabel = filters.from
+    ? `${format(parseISO(filters.from), "MMM d, yyyy")}${
+        filters.to && filters.to !== filters.from ? ` – ${format(parseISO(filters.to), "MMM d, yyyy")}` : ""
+      }`
+    : "Any date";
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <div className="relative flex-1 min-w-[200px]">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search description or reference..."
+          className="pl-9"
+          aria-label="Search transactions"
+        />
+      </div>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm">
+            Type
+            {filters.types.length > 0 && (
+              <Badge variant="secondary" className="ml-2 px-1.5">
+                {filters.types.length}
+              </Badge>
+            )}
+            <ChevronDown className="ml-1 h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start">
+          {TRANSACTION_TYPES.map((type) => (
+            <DropdownMenuCheckboxItem
+              key={type}
+              checked={filters.types.includes(type)}
+              onCheckedChange={(checked) => toggleType(type, checked)}
+              onSelect={(e) => e.preventDefault()}
+            >
+              {TRANSACTION_TYPE_LABELS[type]}
+            </DropdownMenuCheckboxItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" className={filters.from ? "" : "text-muted-foreground"}>
+            <CalendarIcon className="mr-2 h-4 w-4" />
+            {rangeLabel}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="start">
+          <Calendar
+            mode="range"
+            selected={range}
+            onSelect={(selected) => onChange({ ...filters, from: toDay(selected?.from), to: toDay(selected?.to) })}
+            numberOfMonths={2}
+            disabled={{ after: new Date() }}
+            initialFocus
+          />
+        </PopoverContent>
+      </Popover>
+
+      <div className="flex items-center gap-1">
+        <Input
+          type="number"
+          min={0}
+          value={minAmount}
+          onChange={(e) => setMinAmount(e.target.value)}
+          placeholder="Min"
+          className="w-24 h-9"
+          aria-label="Minimum amount"
+        />
+        <span className="text-muted-foreground">–</span>
+        <Input
+          type="number"
+          min={0}
+          value={maxAmount}
+          onChange={(e) => setMaxAmount(e.target.value)}
+          placeholder="Max"
+          className="w-24 h-9"
+          aria-label="Maximum amount"
+        />
+      </div>
+
+      {activeCount > 0 && (
+        <Button variant="ghost" size="sm" onClick={() => onChange(EMPTY_HISTORY_FILTERS)}>
+          <X className="mr-1 h-4 w-4" />
+          Clear ({activeCount})
+        </Button>
+      )}
+    </div>
+  );
+};
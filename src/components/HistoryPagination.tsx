@@ -0,0 +1,147 @@
+import { useState, type FormEvent } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import { HISTORY_PAGE_SIZES } from "@/lib/historyViewPrefs";
+
+// First, last and up to two pages either side of the current one, with gaps in between
+const pageWindow = (current: number, total: number): (number | "gap")[] => {
+  const pages: (number | "gap")[] = [];
+  for (let page = 1; page <= total; page++) {
+    if (page === 1 || page === total || Math.abs(page - current) <= 2) {
+      pages.push(page);
+    } else if (pages[pages.length - 1] !== "gap") {
+      pages.push("gap");
+    }
+  }
+  return pages;
+};
+
+interface HistoryPaginationProps {
+  page: number;
+  pages: number;
+  total: number;
+  pageSize: number;
+  disabled?: boolean;
+  onPageChange: (page: number) => void;
+  onPageSizeChange: (pageSize: number) => void;
+}
+
+export const HistoryPagination = ({
+  page,
+  pages,
+  total,
+  pageSize,
+  disabled,
+  onPageChange,
+  onPageSizeChange,
+}: HistoryPaginationProps) => {
+  const [jumpTo, setJumpTo] = useState("");
+
+  const goTo = (target: number) => {
+    if (disabled || target < 1 || target > pages || target === page) return;
+    onPageChange(target);
+  };
+
+  const handleJump = (e: FormEvent) => {
+    e.preventDefault();
+    const target = Math.min(Math.max(1, Math.trunc(Number(jumpTo))), pages);
+    if (Number.isFinite(target)) goTo(target);
+    setJumpTo("");
+  };
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-3">
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <span>Rows per page</span>
+        <Select value={String(pageSize)} onValueChange={(value) => onPageSizeChange(Number(value))}>
+          <SelectTrigger className="h-8 w-[72px]" aria-label="Rows per page">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {HISTORY_PAGE_SIZES.map((size) => (
+              <SelectItem key={size} value={String(size)}>
+                {size}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <span>{total.toLocaleString()} total</span>
+      </div>
+
+      {pages > 1 && (
+        <Pagination className="mx-0 w-auto">
+          <PaginationContent>
+            <PaginationItem>
+              <PaginationPrevious
+                href="#"
+                onClick={(e) => {
+                  e.preventDefault();
+                  goTo(page - 1);
+                }}
+                aria-disabled={page <= 1 || disabled}
+                className={page <= 1 ? "pointer-events-none opacity-50" : undefined}
+              />
+            </PaginationItem>
+            {pageWindow(page, pages).map((item, i) => (
+              <PaginationItem key={item === "gap" ? `gap-${i}` : item}>
+                {item === "gap" ? (
+                  <PaginationEllipsis />
+                ) : (
+                  <PaginationLink
+                    href="#"
+                    isActive={item === page}
+                    onClick={(e) => {
+                      e.preventDefault();
+                      goTo(item);
+                    }}
+                  >
+                    {item}
+                  </PaginationLink>
+                )}
+              </PaginationItem>
+            ))}
+            <PaginationItem>
+              <PaginationNext
+                href="#"
+                onClick={(e) => {
+                  e.preventDefault();
+                  goTo(page + 1);
+                }}
+                aria-disabled={page >= pages || disabled}
+                className={page >= pages ? "pointer-events-none opacity-50" : undefined}
+              />
+            </PaginationItem>
+          </PaginationContent>
+        </Pagination>
+      )}
+
+      {pages > 1 && (
+        <form onSubmit={handleJump} className="flex items-center gap-2 text-sm text-muted-foreground">
+          <span>Go to</span>
+          <Input
+            type="number"
+            min={1}
+            max={pages}
+            value={jumpTo}
+            onChange={(e) => setJumpTo(e.target.value)}
+            className="h-8 w-16"
+            aria-label="Page number"
+          />
+          <Button type="submit" size="sm" variant="outline" disabled={!jumpTo || disabled}>
+            Go
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,138 @@
+import type { ReactNode } from "react";
+import { ArrowDown, ArrowUp, ArrowUpDown, Bot, Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { HistoryTransaction } from "@/hooks/use-credits";
+import type { AgentAttribution } from "@/lib/agentSpend";
+import type { HistorySort, HistorySortColumn } from "@/lib/historyFilters";
+
+const COLUMNS: { column: HistorySortColumn; label: string; align?: "right" }[] = [
+  { column: "created_at", label: "Date" },
+  { column: "type", label: "Type" },
+  { column: "description", label: "Description" },
+  { column: "amount", label: "Amount", align: "right" },
+  { column: "balance_after", label: "Balance", align: "right" },
+];
+
+interface HistoryTableProps {
+  transactions: HistoryTransaction[];
+  sort: HistorySort;
+  onSortChange: (sort: HistorySort) => void;
+  typeLabel: (type: string) => string;
+  isCredit: (type: string) => boolean;
+  agentFor: AgentAttribution;
+  empty: ReactNode;
+}
+
+export const HistoryTable = ({
+  transactions,
+  sort,
+  onSortChange,
+  typeLabel,
+  isCredit,
+  agentFor,
+  empty,
+}: HistoryTableProps) => {
+  // Clicking the sorted column flips it; a new column starts with the biggest/newest first
+  const toggleSort = (column: HistorySortColumn) =>
+    onSortChange(
+      sort.column === column
+        ? { column, direction: sort.direction === "asc" ? "desc" : "asc" }
+        : { column, direction: column === "type" || column === "description" ? "asc" : "desc" }
+    );
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          {COLUMNS.map(({ column, label, align }) => {
+            const active = sort.column === column;
+            const Icon = !active ? ArrowUpDown : sort.direction === "asc" ? ArrowUp : ArrowDown;
+            return (
+              <TableHead
+                key={column}
+                className={align === "right" ? "text-right" : undefined}
+                aria-sort={active ? (sort.direction === "asc" ? "ascending" : "descending") : "none"}
+              >
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className={`-mx-3 h-8 ${active ? "text-foreground" : ""}`}
+                  onClick={() => toggleSort(column)}
+                >
+                  {label}
+                  <Icon className={`ml-1 h-3.5 w-3.5 ${active ? "" : "opacity-40"}`} />
+                </Button>
+              </TableHead>
+            );
+          })}
+          <TableHead>Agent</TableHead>
+          <TableHead>Reference</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {transactions.length === 0 ? (
+          <TableRow>
+            <TableCell colSpan={COLUMNS.length + 2} className="py-12 text-center text-muted-foreground">
+              {empty}
+            </TableCell>
+          </TableRow>
+        ) : (
+          transactions.map((tx) => {
+            const credit = isCredit(tx.type);
+            const cancelled = tx.type?.toLowerCase() === "cancelled";
+            const agent = agentFor(tx);
+            return (
+              <TableRow key={tx.id} className={tx.pending ? "opacity-70" : undefined}>
+                <TableCell className="whitespace-nowrap text-muted-foreground">
+                  {new Date(tx.created_at).toLocaleString("en-US", {
+                    month: "short",
+                    day: "numeric",
+                    year: "numeric",
+                    hour: "2-digit",
+                    minute: "2-digit",
+                  })}
+                </TableCell>
+                <TableCell className="whitespace-nowrap">
+                  <span className={credit ? "text-emerald-700" : "text-red-700"}>{typeLabel(tx.type)}</span>
+                  {tx.pending && (
+                    <Badge variant="outline" className="ml-2 text-xs gap-1">
+                      <Loader2 className="h-3 w-3 animate-spin" />
+                      Pending
+                    </Badge>
+                  )}
+                </TableCell>
+                <TableCell className="max-w-[280px] truncate" title={tx.description}>
+                  {tx.description || <span className="italic text-gray-400">No description</span>}
+                </TableCell>
+                <TableCell
+                  className={`text-right font-semibold whitespace-nowrap ${credit ? "text-emerald-600" : "text-red-600"}`}
+                >
+                  {cancelled ? "" : credit ? "+" : "-"}
+                  {Math.abs(tx.amount).toLocaleString()}
+                </TableCell>
+                <TableCell className="text-right whitespace-nowrap">
+                  {Number(tx.balance_after).toLocaleString()}
+                </TableCell>
+                <TableCell className="max-w-[160px] truncate text-sm" title={agent?.name}>
+                  {agent ? (
+                    <span className="inline-flex items-center gap-1">
+                      <Bot className="h-3.5 w-3.5 shrink-0 text-indigo-600" />
+                      {agent.name}
+                    </span>
+                  ) : (
+                    <span className="text-muted-foreground">—</span>
+                  )}
+                </TableCell>
+                <TableCell className="max-w-[160px] truncate font-mono text-xs text-muted-foreground" title={tx.reference_id}>
+                  {tx.reference_id || "—"}
+                </TableCell>
+              </TableRow>
+            );
+          })
+        )}
+      </TableBody>
+    </Table>
+  );
+};
@@ -0,0 +1,62 @@
+import { useEffect, useState, type FormEvent } from "react";
+import { Bell, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+
+interface LowBalanceThresholdControlProps {
+  threshold: number | undefined;
+  saving: boolean;
+  onSave: (threshold: number) => void;
+}
+
+export const LowBalanceThresholdControl = ({ threshold, saving, onSave }: LowBalanceThresholdControlProps) => {
+  const [open, setOpen] = useState(false);
+  const [value, setValue] = useState("");
+
+  useEffect(() => {
+    if (open) setValue(threshold?.toString() ?? "");
+  }, [open, threshold]);
+
+  const parsed = Number(value);
+  const valid = value.trim() !== "" && Number.isFinite(parsed) && parsed >= 0;
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!valid) return;
+    onSave(parsed);
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="link" size="sm" className="h-auto p-0 text-muted-foreground">
+          <Bell className="mr-1 h-3.5 w-3.5" />
+          Alert below {threshold === undefined ? "…" : threshold.toLocaleString()} credits
+          {saving && <Loader2 className="ml-1 h-3 w-3 animate-spin" />}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64" align="start">
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <div className="space-y-1">
+            <Label htmlFor="low-balance-threshold">Low-balance alert</Label>
+            <p className="text-xs text-muted-foreground">Warn when this organization's balance drops below:</p>
+          </div>
+          <Input
+            id="low-balance-threshold"
+            type="number"
+            min={0}
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            autoFocus
+          />
+          <Button type="submit" size="sm" className="w-full" disabled={!valid || saving}>
+            Save
+          </Button>
+        </form>
+      </PopoverContent>
+    </Popover>
+  );
+};
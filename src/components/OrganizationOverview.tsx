@@ -0,0 +1,170 @@
+import { useMemo, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { AlertTriangle, ArrowDown, ArrowUp, ArrowUpDown, Building2, RefreshCw } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { AuthOrganization } from "@/contexts/AuthContext";
+import { useOrganizationSummaries, type CreditsSource } from "@/hooks/use-credits";
+import { getStoredLowBalanceThreshold, isLowBalance } from "@/lib/lowBalance";
+
+type SortColumn = "name" | "balance" | "activity";
+type Sort = { column: SortColumn; direction: "asc" | "desc" };
+
+const COLUMNS: { column: SortColumn; label: string; align?: "right" }[] = [
+  { column: "name", label: "Organization" },
+  { column: "balance", label: "Balance", align: "right" },
+  { column: "activity", label: "Latest transaction" },
+];
+
+interface OrganizationOverviewProps<A> {
+  organizations: AuthOrganization[];
+  activeOrgId: number | undefined;
+  sourceFor: (orgId: number) => CreditsSource<A>;
+  enabled: boolean;
+  onSelect: (orgId: number) => void;
+}
+
+export const OrganizationOverview = <A,>({
+  organizations,
+  activeOrgId,
+  sourceFor,
+  enabled,
+  onSelect,
+}: OrganizationOverviewProps<A>) => {
+  const [sort, setSort] = useState<Sort>({ column: "name", direction: "asc" });
+  const orgIds = useMemo(() => organizations.map((org) => org.id), [organizations]);
+  const summaries = useOrganizationSummaries(orgIds, sourceFor, { enabled });
+
+  const rows = organizations.map((org) => {
+    const summary = summaries[org.id];
+    const latest = summary?.latest.data ?? null;
+    return {
+      org,
+      summary,
+      balance: summary?.balance.data?.balance,
+      latest,
+      latestTime: latest ? new Date(latest.created_at).getTime() || 0 : 0,
+    };
+  });
+
+  const factor = sort.direction === "asc" ? 1 : -1;
+  // Organizations still loading (or failed) sort last whichever way the column goes
+  const sorted = [...rows].sort((a, b) => {
+    if (sort.column === "name") return factor * a.org.name.localeCompare(b.org.name);
+    if (sort.column === "balance") {
+      if (a.balance === undefined || b.balance === undefined) return a.balance === undefined ? 1 : -1;
+      return factor * (a.balance - b.balance);
+    }
+    return factor * (a.latestTime - b.latestTime);
+  });
+
+  const isLow = (orgId: number, balance: number | undefined) =>
+    balance !== undefined && isLowBalance(balance, getStoredLowBalanceThreshold(orgId));
+  const lowCount = rows.filter((row) => isLow(row.org.id, row.balance)).length;
+  const fetching = rows.some((row) => row.summary?.balance.isFetching || row.summary?.latest.isFetching);
+
+  const toggleSort = (column: SortColumn) =>
+    setSort((current) =>
+      current.column === column
+        ? { column, direction: current.direction === "asc" ? "desc" : "asc" }
+        : { column, direction: column === "name" ? "asc" : "desc" }
+    );
+
+  const refetchAll = () =>
+    rows.forEach((row) => {
+      row.summary?.balance.refetch();
+      row.summary?.latest.refetch();
+    });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <Building2 className="h-5 w-5" />
+            🏢 Organizations
+          </span>
+          <Button size="sm" variant="ghost" onClick={refetchAll} disabled={!enabled || fetching}>
+            <RefreshCw className={`h-4 w-4 ${fetching ? "animate-spin" : ""}`} />
+          </Button>
+        </CardTitle>
+        <CardDescription>
+          {organizations.length} organizations
+          {lowCount > 0 && ` · ${lowCount} running low on credits`}. Click a row to switch to it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              {COLUMNS.map(({ column, label, align }) => {
+                const active = sort.column === column;
+                const Icon = !active ? ArrowUpDown : sort.direction === "asc" ? ArrowUp : ArrowDown;
+                return (
+                  <TableHead key={column} className={align === "right" ? "text-right" : undefined}>
+                    <Button variant="ghost" size="sm" className="-mx-3 h-8" onClick={() => toggleSort(column)}>
+                      {label}
+                      <Icon className={`ml-1 h-3.5 w-3.5 ${active ? "" : "opacity-40"}`} />
+                    </Button>
+                  </TableHead>
+                );
+              })}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {sorted.map(({ org, summary, balance, latest }) => {
+              const active = org.id === activeOrgId;
+              const low = isLow(org.id, balance);
+              return (
+                <TableRow
+                  key={org.id}
+                  onClick={() => !active && onSelect(org.id)}
+                  className={`cursor-pointer ${active ? "bg-muted/60" : ""}`}
+                  aria-selected={active}
+                >
+                  <TableCell className="font-medium">
+                    {org.name}
+                    {active && (
+                      <Badge variant="secondary" className="ml-2 text-xs">
+                        Active
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    {summary?.balance.error ? (
+                      <span className="text-xs text-red-600" title={summary.balance.error.message}>
+                        Failed to load
+                      </span>
+                    ) : balance === undefined ? (
+                      <Skeleton className="ml-auto h-4 w-16" />
+                    ) : (
+                      <span className={`inline-flex items-center gap-1 font-semibold ${low ? "text-amber-600" : ""}`}>
+                        {low && <AlertTriangle className="h-3.5 w-3.5" aria-label="Low balance" />}
+                        {balance.toLocaleString()}
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {summary?.latest.isPending && !summary.latest.error ? (
+                      <Skeleton className="h-4 w-40" />
+                    ) : latest ? (
+                      <span className="truncate">
+                        {latest.type} · {Math.abs(latest.amount).toLocaleString()} ·{" "}
+                        {formatDistanceToNow(new Date(latest.created_at), { addSuffix: true })}
+                      </span>
+                    ) : (
+                      "—"
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
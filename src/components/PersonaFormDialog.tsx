@@ -0,0 +1,182 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import type { PersonaInput } from "@/lib/personasService";
+
+const optionalText = (max: number) => z.string().trim().max(max, `Must be ${max} characters or fewer`);
+
+const personaFormSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(255, "Must be 255 characters or fewer"),
+  short_description: optionalText(500),
+  long_description: optionalText(10000),
+  category: optionalText(255),
+  geo: optionalText(255),
+  size: optionalText(255),
+  industry: optionalText(255),
+  job_title: optionalText(255),
+  value: optionalText(255),
+});
+
+type PersonaFormValues = z.infer<typeof personaFormSchema>;
+
+const EMPTY_VALUES: PersonaFormValues = {
+  name: "",
+  short_description: "",
+  long_description: "",
+  category: "",
+  geo: "",
+  size: "",
+  industry: "",
+  job_title: "",
+  value: "",
+};
+
+const SHORT_FIELDS: { name: keyof PersonaFormValues; label: string }[] = [
+  { name: "category", label: "Category" },
+  { name: "job_title", label: "Job Title" },
+  { name: "industry", label: "Industry" },
+  { name: "geo", label: "Geography" },
+  { name: "size", label: "Company Size" },
+  { name: "value", label: "Value" },
+];
+
+// Empty optional fields are left out of a new persona, and sent as null when editing so
+// that clearing a field clears it on the server too
+const toPersonaInput = (values: PersonaFormValues, isEdit: boolean): PersonaInput =>
+  Object.fromEntries(
+    Object.entries(values).flatMap(([key, value]) =>
+      key === "name" || value !== "" ? [[key, value]] : isEdit ? [[key, null]] : []
+    )
+  ) as PersonaInput;
+
+interface PersonaFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Present when editing, absent when creating
+  persona?: Partial<PersonaInput> | null;
+  submitting?: boolean;
+  onSubmit: (input: PersonaInput) => void;
+}
+
+export const PersonaFormDialog = ({ open, onOpenChange, persona, submitting, onSubmit }: PersonaFormDialogProps) => {
+  const isEdit = !!persona;
+  const form = useForm<PersonaFormValues>({
+    resolver: zodResolver(personaFormSchema),
+    defaultValues: EMPTY_VALUES,
+  });
+
+  // Load the persona being edited (or clear the form) every time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    const values = { ...EMPTY_VALUES };
+    if (persona) {
+      (Object.keys(EMPTY_VALUES) as (keyof PersonaFormValues)[]).forEach((key) => {
+        const value = persona[key];
+        values[key] = value == null ? "" : String(value);
+      });
+    }
+    form.reset(values);
+  }, [open, persona, form]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{isEdit ? "Edit Persona" : "New Persona"}</DialogTitle>
+          <DialogDescription>
+            {isEdit ? "Update the details of this persona." : "Describe the persona you want to add."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((values) => onSubmit(toPersonaInput(values, isEdit)))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. Operations Manager" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="short_description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Short Description</FormLabel>
+                  <FormControl>
+                    <Input placeholder="One-line summary" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="long_description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Long Description</FormLabel>
+                  <FormControl>
+                    <Textarea rows={6} placeholder="Goals, pain points, behaviours..." {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid gap-4 md:grid-cols-2">
+              {SHORT_FIELDS.map(({ name, label }) => (
+                <FormField
+                  key={name}
+                  control={form.control}
+                  name={name}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{label}</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+                Cancel
+              </Button>
+              <Button type="submit" className="bg-gradient-primary hover:opacity-90" disabled={submitting}>
+                {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {isEdit ? "Save Changes" : "Create Persona"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
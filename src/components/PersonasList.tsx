@@ -1,87 +1,151 @@
-import { useState, useEffect } from "react";
+import { useState, useMemo } from "react";
+import { Link, useSearchParams } from "react-router-dom";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
-import { User, Loader2, RefreshCw } from "lucide-react";
-
-interface Persona {
-  id: number;
-  name: string;
-  description?: string;
-  category?: string;
-  created_at?: string;
-  updated_at?: string;
-  [key: string]: any;
-}
-
-interface PersonasListProps {
-  onPersonaSelect?: (persona: Persona) => void;
-}
-
-export const PersonasList = ({ onPersonaSelect }: PersonasListProps) => {
-  const [personas, setPersonas] = useState<Persona[]>([]);
-  const [loading, setLoading] = useState(true);
+import { usePersonaMutations, usePersonasQuery } from "@/hooks/use-personas";
+import { User, Loader2, RefreshCw, Plus, Pencil, Trash2, AlertTriangle } from "lucide-react";
+import type { Persona, PersonaInput } from "@/lib/personasService";
+import { PersonaFormDialog } from "@/components/PersonaFormDialog";
+import { PersonasToolbar } from "@/components/PersonasToolbar";
+import {
+  applyPersonaFilters,
+  derivePersonaFilterOptions,
+  filterAndSortPersonas,
+  parsePersonaFilters,
+  type PersonaFilters,
+} from "@/lib/personaFilters";
+
+const EMPTY_PERSONAS: Persona[] = [];
+
+export const PersonasList = () => {
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingPersona, setEditingPersona] = useState<Persona | null>(null);
+  const [deletingPersona, setDeletingPersona] = useState<Persona | null>(null);
   const { toast } = useToast();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  // Cached per organization, so switching organizations (including ORG_CHANGED pushed by an
+  // embedding parent) shows that organization's list without refetching on every mount
+  const personasQuery = usePersonasQuery();
+  const { create, update, remove } = usePersonaMutations();
+  const personas = personasQuery.data ?? EMPTY_PERSONAS;
 
-  // Debug mode flag - matches Auth and Personas
-  const DEBUG = false;
+  const filters = useMemo(() => parsePersonaFilters(searchParams), [searchParams]);
+  const filterOptions = useMemo(() => derivePersonaFilterOptions(personas), [personas]);
+  const visiblePersonas = useMemo(() => filterAndSortPersonas(personas, filters), [personas, filters]);
 
-  useEffect(() => {
-    fetchPersonas();
-  }, []);
+  // Detail links keep the current filters so prev/next there walks this same list
+  const detailQuery = searchParams.toString() ? `?${searchParams.toString()}` : "";
 
-  const fetchPersonas = async () => {
-    try {
-      setLoading(true);
+  // `replace` so typing in the search box doesn't add a history entry per keystroke
+  const setFilters = (next: PersonaFilters) => {
+    setSearchParams((prev) => applyPersonaFilters(prev, next), { replace: true });
+  };
 
-      // Dynamically import SDK to access PersonasClient at runtime
-      const SDK = await import("@supreme-ai/si-sdk");
+  const fetchPersonas = () => {
+    personasQuery.refetch();
+  };
 
-      // Initialize personas client - access from SDK default or named export
-      const PersonasClientClass = (SDK as any).PersonasClient || (SDK as any).default?.PersonasClient;
-      
-      if (!PersonasClientClass) {
-        throw new Error("PersonasClient not available in SDK");
-      }
+  const isPending = (persona: Persona) =>
+    persona.id < 0 || (update.isPending && update.variables?.id === persona.id);
 
-      const personasClient = new PersonasClientClass({
-        apiBaseUrl: import.meta.env.VITE_PERSONAS_API_URL || "http://127.0.0.1:8000/api",
-        getAuthToken: () => {
-          return sessionStorage.getItem('creditSystem_accessToken');
-        },
-        debug: DEBUG
-      });
-
-      const result = await personasClient.getPersonas();
-      
-      if (result.success && result.personas) {
-        setPersonas(result.personas);
-        toast({
-          title: "Success",
-          description: `Loaded ${result.personas.length} personas`,
-        });
-      } else {
-        setPersonas([]);
-        toast({
-          title: "No personas found",
-          description: "You don't have any personas yet",
-          variant: "destructive",
-        });
+  const showError = (fallback: string) => (error: Error) => {
+    console.error(`${fallback}:`, error);
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const openCreate = () => {
+    setEditingPersona(null);
+    setFormOpen(true);
+  };
+
+  const openEdit = (persona: Persona) => {
+    setEditingPersona(persona);
+    setFormOpen(true);
+  };
+
+  const handleCreate = (input: PersonaInput) => {
+    setFormOpen(false);
+    create.mutate(input, {
+      onSuccess: () => toast({ title: "Persona created", description: `"${input.name}" has been added` }),
+      onError: showError("Failed to create persona"),
+    });
+  };
+
+  const handleUpdate = (original: Persona, input: PersonaInput) => {
+    setFormOpen(false);
+    update.mutate(
+      { id: original.id, input },
+      {
+        onSuccess: () => toast({ title: "Persona updated", description: `"${input.name}" has been saved` }),
+        onError: showError("Failed to update persona"),
       }
-    } catch (error) {
-      console.error("Error fetching personas:", error);
-      toast({
-        title: "Error",
-        description: "Failed to fetch personas. Please try again.",
-        variant: "destructive",
-      });
-      setPersonas([]);
-    } finally {
-      setLoading(false);
+    );
+  };
+
+  const handleDelete = (persona: Persona) => {
+    setDeletingPersona(null);
+    remove.mutate(persona.id, {
+      onSuccess: () => toast({ title: "Persona deleted", description: `"${persona.name}" has been removed` }),
+      onError: showError("Failed to delete persona"),
+    });
+  };
+
+  const handleFormSubmit = (input: PersonaInput) => {
+    if (editingPersona) {
+      handleUpdate(editingPersona, input);
+    } else {
+      handleCreate(input);
     }
   };
 
-  if (loading) {
+  const dialogs = (
+    <>
+      <PersonaFormDialog
+        open={formOpen}
+        onOpenChange={setFormOpen}
+        persona={editingPersona}
+        onSubmit={handleFormSubmit}
+      />
+
+      <AlertDialog open={!!deletingPersona} onOpenChange={(open) => !open && setDeletingPersona(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete persona?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{deletingPersona?.name}" will be permanently deleted. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => deletingPersona && handleDelete(deletingPersona)}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+
+  if (personasQuery.isPending) {
     return (
       <div className="flex items-center justify-center py-12">
         <Loader2 className="h-8 w-8 animate-spin text-primary" />
@@ -89,79 +153,162 @@ export const PersonasList = ({ onPersonaSelect }: PersonasListProps) => {
     );
   }
 
-  if (personas.length === 0) {
+  if (personasQuery.isError) {
     return (
       <Card className="p-8 text-center">
-        <User className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
-        <h3 className="text-xl font-semibold mb-2">No personas found</h3>
-        <p className="text-muted-foreground mb-4">
-          You don't have any personas yet
-        </p>
+        <AlertTriangle className="h-12 w-12 mx-auto mb-4 text-destructive" />
+        <h3 className="text-xl font-semibold mb-2">Couldn't load personas</h3>
+        <p className="text-muted-foreground mb-4">{personasQuery.error.message}</p>
         <Button onClick={fetchPersonas} variant="outline">
           <RefreshCw className="mr-2 h-4 w-4" />
-          Refresh
+          Try again
         </Button>
       </Card>
     );
   }
 
+  if (personas.length === 0) {
+    return (
+      <>
+        <Card className="p-8 text-center">
+          <User className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+          <h3 className="text-xl font-semibold mb-2">No personas found</h3>
+          <p className="text-muted-foreground mb-4">
+            You don't have any personas yet
+          </p>
+          <div className="flex justify-center gap-2">
+            <Button onClick={openCreate} className="bg-gradient-primary hover:opacity-90">
+              <Plus className="mr-2 h-4 w-4" />
+              New Persona
+            </Button>
+            <Button onClick={fetchPersonas} variant="outline">
+              <RefreshCw className="mr-2 h-4 w-4" />
+              Refresh
+            </Button>
+          </div>
+        </Card>
+        {dialogs}
+      </>
+    );
+  }
+
   return (
     <div className="space-y-4">
       <div className="flex items-center justify-between mb-4">
-        <h2 className="text-2xl font-bold">Your Personas ({personas.length})</h2>
-        <Button onClick={fetchPersonas} variant="outline" size="sm">
-          <RefreshCw className="mr-2 h-4 w-4" />
-          Refresh
-        </Button>
+        <h2 className="text-2xl font-bold">
+          Your Personas (
+          {visiblePersonas.length === personas.length
+            ? personas.length
+            : `${visiblePersonas.length} of ${personas.length}`}
+          )
+        </h2>
+        <div className="flex gap-2">
+          <Button onClick={openCreate} size="sm" className="bg-gradient-primary hover:opacity-90">
+            <Plus className="mr-2 h-4 w-4" />
+            New Persona
+          </Button>
+          <Button onClick={fetchPersonas} variant="outline" size="sm" disabled={personasQuery.isFetching}>
+            <RefreshCw className={`mr-2 h-4 w-4 ${personasQuery.isFetching ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+        </div>
       </div>
-      
+
+      <PersonasToolbar filters={filters} options={filterOptions} onChange={setFilters} />
+
+      {visiblePersonas.length === 0 && (
+        <Card className="p-8 text-center">
+          <h3 className="text-lg font-semibold mb-2">No personas match these filters</h3>
+          <p className="text-muted-foreground">Try a different search or clear some filters.</p>
+        </Card>
+      )}
+
       <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-4">
-        {personas.map((persona) => (
-          <Card
-            key={persona.id}
-            className="p-6 hover:shadow-lg transition-all duration-300 border-2"
-          >
-            <div className="flex items-center gap-4 mb-3">
-              <div className="w-12 h-12 rounded-full bg-gradient-primary flex items-center justify-center">
-                <User className="h-6 w-6 text-primary-foreground" />
-              </div>
-              <div className="flex-1">
-                <h3 className="font-semibold text-lg">{persona.name}</h3>
-                <p className="text-xs text-muted-foreground">ID: {persona.id}</p>
+        {visiblePersonas.map((persona) => {
+          const pending = isPending(persona);
+          return (
+            <Card
+              key={persona.id}
+              className={`p-6 hover:shadow-lg transition-all duration-300 border-2 ${pending ? "opacity-60" : ""}`}
+            >
+              <div className="flex items-center gap-4 mb-3">
+                <div className="w-12 h-12 rounded-full bg-gradient-primary flex items-center justify-center">
+                  <User className="h-6 w-6 text-primary-foreground" />
+                </div>
+                <div className="flex-1">
+                  <h3 className="font-semibold text-lg">
+                    {persona.id < 0 ? (
+                      persona.name
+                    ) : (
+                      <Link to={`/dashboard/personas/${persona.id}${detailQuery}`} className="hover:underline">
+                        {persona.name}
+                      </Link>
+                    )}
+                  </h3>
+                  <p className="text-xs text-muted-foreground">
+                    {persona.id < 0 ? "Saving..." : `ID: ${persona.id}`}
+                  </p>
+                </div>
+                {pending ? (
+                  <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                ) : (
+                  <div className="flex gap-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => openEdit(persona)}
+                      aria-label={`Edit ${persona.name}`}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-destructive hover:text-destructive"
+                      onClick={() => setDeletingPersona(persona)}
+                      aria-label={`Delete ${persona.name}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
               </div>
-            </div>
 
-            {persona.short_description && (
-              <p className="text-sm text-muted-foreground mb-2">
-                {persona.short_description}
-              </p>
-            )}
-
-            <div className="space-y-1 text-xs text-muted-foreground">
-              {persona.job_title && (
-                <p><span className="font-semibold">Job Title:</span> {persona.job_title}</p>
-              )}
-              {persona.industry && (
-                <p><span className="font-semibold">Industry:</span> {persona.industry}</p>
+              {persona.short_description && (
+                <p className="text-sm text-muted-foreground mb-2">
+                  {persona.short_description}
+                </p>
               )}
-              {persona.geo && (
-                <p><span className="font-semibold">Location:</span> {persona.geo}</p>
-              )}
-              {persona.size && (
-                <p><span className="font-semibold">Company Size:</span> {persona.size}</p>
-              )}
-            </div>
 
-            {persona.category && (
-              <div className="mt-3">
-                <span className="text-xs bg-primary/10 text-primary px-2 py-1 rounded-full">
-                  {persona.category}
-                </span>
+              <div className="space-y-1 text-xs text-muted-foreground">
+                {persona.job_title && (
+                  <p><span className="font-semibold">Job Title:</span> {persona.job_title}</p>
+                )}
+                {persona.industry && (
+                  <p><span className="font-semibold">Industry:</span> {persona.industry}</p>
+                )}
+                {persona.geo && (
+                  <p><span className="font-semibold">Location:</span> {persona.geo}</p>
+                )}
+                {persona.size && (
+                  <p><span className="font-semibold">Company Size:</span> {persona.size}</p>
+                )}
               </div>
-            )}
-          </Card>
-        ))}
+
+              {persona.category && (
+                <div className="mt-3">
+                  <span className="text-xs bg-primary/10 text-primary px-2 py-1 rounded-full">
+                    {persona.category}
+                  </span>
+                </div>
+              )}
+            </Card>
+          );
+        })}
       </div>
+
+      {dialogs}
     </div>
   );
 };
@@ -0,0 +1,122 @@
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChevronDown, Search, X } from "lucide-react";
+import {
+  DEFAULT_PERSONA_SORT,
+  PERSONA_FILTER_FIELDS,
+  PERSONA_FILTER_LABELS,
+  PERSONA_SORT_OPTIONS,
+  countActiveFilters,
+  type PersonaFilterField,
+  type PersonaFilters,
+  type PersonaSort,
+} from "@/lib/personaFilters";
+
+interface PersonasToolbarProps {
+  filters: PersonaFilters;
+  options: Record<PersonaFilterField, string[]>;
+  onChange: (filters: PersonaFilters) => void;
+}
+
+export const PersonasToolbar = ({ filters, options, onChange }: PersonasToolbarProps) => {
+  const activeCount = countActiveFilters(filters);
+
+  const toggleValue = (field: PersonaFilterField, value: string, checked: boolean) => {
+    const current = filters.values[field];
+    onChange({
+      ...filters,
+      values: {
+        ...filters.values,
+        [field]: checked ? [...current, value] : current.filter((v) => v !== value),
+      },
+    });
+  };
+
+  const clearAll = () => {
+    const values = {} as Record<PersonaFilterField, string[]>;
+    PERSONA_FILTER_FIELDS.forEach((field) => {
+      values[field] = [];
+    });
+    onChange({ query: "", sort: filters.sort, values });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <div className="relative flex-1 min-w-[200px]">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          value={filters.query}
+          onChange={(e) => onChange({ ...filters, query: e.target.value })}
+          placeholder="Search name and descriptions..."
+          className="pl-9"
+          aria-label="Search personas"
+        />
+      </div>
+
+      {PERSONA_FILTER_FIELDS.map((field) => {
+        const selected = filters.values[field];
+        // Keep selected values from the URL visible even when no loaded persona has them
+        const values = [...new Set([...options[field], ...selected])];
+        return (
+          <DropdownMenu key={field}>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm" disabled={values.length === 0}>
+                {PERSONA_FILTER_LABELS[field]}
+                {selected.length > 0 && (
+                  <Badge variant="secondary" className="ml-2 px-1.5">
+                    {selected.length}
+                  </Badge>
+                )}
+                <ChevronDown className="ml-1 h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start" className="max-h-72 overflow-y-auto">
+              <DropdownMenuLabel>{PERSONA_FILTER_LABELS[field]}</DropdownMenuLabel>
+              <DropdownMenuSeparator />
+              {values.map((value) => (
+                <DropdownMenuCheckboxItem
+                  key={value}
+                  checked={selected.includes(value)}
+                  onCheckedChange={(checked) => toggleValue(field, value, checked)}
+                  onSelect={(e) => e.preventDefault()}
+                >
+                  {value}
+                </DropdownMenuCheckboxItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        );
+      })}
+
+      <Select value={filters.sort} onValueChange={(sort) => onChange({ ...filters, sort: sort as PersonaSort })}>
+        <SelectTrigger className="w-[170px] h-9" aria-label="Sort personas">
+          <SelectValue placeholder={PERSONA_SORT_OPTIONS[DEFAULT_PERSONA_SORT]} />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(PERSONA_SORT_OPTIONS) as PersonaSort[]).map((sort) => (
+            <SelectItem key={sort} value={sort}>
+              {PERSONA_SORT_OPTIONS[sort]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {activeCount > 0 && (
+        <Button variant="ghost" size="sm" onClick={clearAll}>
+          <X className="mr-1 h-4 w-4" />
+          Clear ({activeCount})
+        </Button>
+      )}
+    </div>
+  );
+};
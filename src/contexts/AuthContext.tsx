@@ -0,0 +1,209 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from "react";
+import type { ReactNode } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import {
+  AUTH_URL,
+  USER_KEY,
+  clearTokens,
+  getAccessToken,
+  getValidAccessToken,
+  isTokenExpiring,
+  setTokens,
+  subscribeToTokens,
+} from "@/lib/tokenManager";
+
+// Selected organization is shared by every page, so it lives next to the session
+const SELECTED_ORG_KEY = "creditSystem_selectedOrgId";
+
+export type AuthMode = "standalone" | "embedded";
+
+// "loading" while a stored session is still being validated (e.g. its token is being refreshed)
+export type AuthStatus = "loading" | "authenticated" | "unauthenticated";
+
+export type AuthOrganization = {
+  id: number;
+  name: string;
+  isSelected: boolean;
+};
+
+export type AuthUser = {
+  id: number;
+  name: string;
+  email: string;
+  organizations?: { id: number | string; name: string; selectedStatus?: boolean }[];
+  userRoleIds?: number[];
+  user_role_ids?: number[];
+  [key: string]: unknown;
+};
+
+export type AuthSession = {
+  accessToken: string;
+  refreshToken?: string | null;
+  user: AuthUser;
+};
+
+export type LoginResult = {
+  success: boolean;
+  user?: AuthUser;
+  error?: string;
+};
+
+type AuthContextValue = {
+  mode: AuthMode;
+  user: AuthUser | null;
+  token: string | null;
+  status: AuthStatus;
+  isAuthenticated: boolean;
+  organizations: AuthOrganization[];
+  selectedOrganization: AuthOrganization | undefined;
+  selectOrganization: (organizationId: number) => void;
+  login: (email: string, password: string) => Promise<LoginResult>;
+  establishSession: (session: AuthSession) => void;
+  logout: () => void;
+};
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+const detectMode = (): AuthMode => (window.self !== window.top ? "embedded" : "standalone");
+
+const readStoredUser = (): AuthUser | null => {
+  try {
+    const stored = sessionStorage.getItem(USER_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch (err) {
+    console.error("Failed to read stored user:", err);
+    return null;
+  }
+};
+
+const readSelectedOrgId = (): number | null => {
+  const stored = sessionStorage.getItem(SELECTED_ORG_KEY);
+  return stored ? parseInt(stored, 10) : null;
+};
+
+// Build the organization list with exactly one selected entry
+const toOrganizations = (user: AuthUser | null, selectedId: number | null): AuthOrganization[] => {
+  if (!user?.organizations || !Array.isArray(user.organizations)) return [];
+
+  const orgs = user.organizations.map((org) => ({
+    id: typeof org.id === "string" ? parseInt(org.id, 10) : org.id,
+    name: org.name || "",
+    selectedStatus: org.selectedStatus,
+  }));
+  const fallback = orgs.find((org) => org.selectedStatus) ?? orgs[0];
+  const selected = orgs.find((org) => org.id === selectedId) ?? fallback;
+
+  return orgs.map((org) => ({ id: org.id, name: org.name, isSelected: org.id === selected?.id }));
+};
+
+export const AuthProvider = ({ children }: { children: ReactNode }) => {
+  const queryClient = useQueryClient();
+  const [mode] = useState<AuthMode>(detectMode);
+  const [token, setToken] = useState<string | null>(getAccessToken);
+  const [user, setUser] = useState<AuthUser | null>(readStoredUser);
+  const [selectedOrgId, setSelectedOrgId] = useState<number | null>(readSelectedOrgId);
+  // A stored token that is about to expire has to be refreshed before the session is known to be valid
+  const [validating, setValidating] = useState(() => {
+    const stored = getAccessToken();
+    return !!stored && isTokenExpiring(stored);
+  });
+
+  useEffect(() => {
+    if (!validating) return;
+    // Resolves to null (and clears the session via the subscriber) when the refresh fails
+    getValidAccessToken().finally(() => setValidating(false));
+  }, [validating]);
+
+  // Follow token refreshes, and drop the session when the token manager gives up on it
+  useEffect(() => {
+    return subscribeToTokens((accessToken) => {
+      setToken(accessToken);
+      if (!accessToken) {
+        sessionStorage.removeItem(USER_KEY);
+        sessionStorage.removeItem(SELECTED_ORG_KEY);
+        setUser(null);
+        setSelectedOrgId(null);
+        // Don't let the next user see this session's cached data
+        queryClient.clear();
+      }
+    });
+  }, [queryClient]);
+
+  const establishSession = useCallback(({ accessToken, refreshToken, user }: AuthSession) => {
+    sessionStorage.setItem(USER_KEY, JSON.stringify(user));
+    setUser(user);
+    setTokens(accessToken, refreshToken);
+  }, []);
+
+  const login = useCallback(
+    async (email: string, password: string): Promise<LoginResult> => {
+      try {
+        const response = await fetch(`${AUTH_URL}/login`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "Accept": "application/json",
+          },
+          body: JSON.stringify({ email, password }),
+        });
+        const data = await response.json();
+
+        if (response.ok && data.success && data.data) {
+          const { user: userData, tokens } = data.data;
+          establishSession({
+            accessToken: tokens.access_token,
+            refreshToken: tokens.refresh_token,
+            user: userData,
+          });
+          return { success: true, user: userData };
+        }
+        return { success: false, error: data.message || "Invalid credentials" };
+      } catch (err) {
+        return { success: false, error: err instanceof Error ? err.message : "Network error" };
+      }
+    },
+    [establishSession]
+  );
+
+  const logout = useCallback(() => {
+    // Clearing the tokens notifies the subscriber above, which resets user and organization
+    clearTokens();
+  }, []);
+
+  const selectOrganization = useCallback((organizationId: number) => {
+    sessionStorage.setItem(SELECTED_ORG_KEY, String(organizationId));
+    setSelectedOrgId(organizationId);
+  }, []);
+
+  const organizations = useMemo(() => toOrganizations(user, selectedOrgId), [user, selectedOrgId]);
+
+  const isAuthenticated = !!token && !!user;
+  const status: AuthStatus = validating ? "loading" : isAuthenticated ? "authenticated" : "unauthenticated";
+
+  const value = useMemo<AuthContextValue>(
+    () => ({
+      mode,
+      user,
+      token,
+      status,
+      isAuthenticated,
+      organizations,
+      selectedOrganization: organizations.find((org) => org.isSelected),
+      selectOrganization,
+      login,
+      establishSession,
+      logout,
+    }),
+    [mode, user, token, status, isAuthenticated, organizations, selectOrganization, login, establishSession, logout]
+  );
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
+
+export const useAuth = () => {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider.");
+  }
+  return context;
+};
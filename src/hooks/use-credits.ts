@@ -0,0 +1,447 @@
+import {
+  keepPreviousData,
+  queryOptions,
+  useMutation,
+  useQueries,
+  useQuery,
+  useQueryClient,
+  type QueryKey,
+  type UseQueryResult,
+} from "@tanstack/react-query";
+import type { Transaction } from "@supreme-ai/si-sdk";
+import { queryKeys } from "@/lib/queryKeys";
+import { DEFAULT_CREDIT_LIMITS, type CreditLimits } from "@/lib/creditLimits";
+import {
+  EMPTY_HISTORY_FILTERS,
+  hasHistoryFilters,
+  matchesHistoryFilters,
+  sortTransactions,
+  type HistoryFilters,
+  type HistorySort,
+} from "@/lib/historyFilters";
+import { analyticsStartDay } from "@/lib/creditAnalytics";
+
+// The credit system is reached either through the SDK (embedded mode) or through the
+// JWT API directly (standalone mode). Both are adapted to this shape so the queries
+// below don't care which one they talk to.
+
+// `code` and `details` carry the server's machine-readable error, when it sends one, and
+// `status` the HTTP status when the request got an answer at all
+type SourceResult = { success: boolean; error?: string; code?: string; details?: unknown; status?: number };
+
+export type BalanceSourceResult = SourceResult & { balance?: number; limits?: CreditLimits };
+
+export type HistorySourceResult = SourceResult & {
+  transactions?: Transaction[];
+  total?: number;
+  page?: number;
+  pages?: number;
+  // Whether the source applied the filters it was given; unknown when left out
+  filtersApplied?: boolean;
+};
+
+export type CreditChangeSourceResult = SourceResult & { newBalance?: number };
+
+export type AgentsSourceResult<A> = SourceResult & {
+  agents?: A[];
+  roleGrouped?: Record<string, { role_name: string; agents: A[] }>;
+};
+
+export type CreditsSource<A> = {
+  checkBalance: () => Promise<BalanceSourceResult>;
+  getHistory: (
+    page: number,
+    limit: number,
+    filters?: HistoryFilters,
+    sort?: HistorySort
+  ) => Promise<HistorySourceResult>;
+  getAgents: (all: boolean) => Promise<AgentsSourceResult<A>>;
+  // `referenceId` is the submission's idempotency key (see lib/idempotency); `agentId` the
+  // AI agent the spend is made for, if any
+  spendCredits: (
+    amount: number,
+    description: string,
+    referenceId: string,
+    agentId?: number
+  ) => Promise<CreditChangeSourceResult>;
+  addCredits: (
+    amount: number,
+    type: string,
+    description: string,
+    referenceId: string
+  ) => Promise<CreditChangeSourceResult>;
+};
+
+// A spend/add that has been shown optimistically but not yet confirmed by the server
+export type HistoryTransaction = Transaction & { pending?: boolean };
+
+export type CreditBalance = {
+  balance: number;
+  limits: CreditLimits;
+};
+
+export type HistoryPage = {
+  transactions: HistoryTransaction[];
+  total: number;
+  page: number;
+  pages: number;
+  // Set when the server ignored the filters and they were applied to the fetched rows instead
+  filteredLocally?: boolean;
+  // Set when that local filtering stopped before reaching the oldest transaction
+  truncated?: boolean;
+};
+
+export type AgentsData<A> = {
+  allAgents: A[];
+  filteredAgents: A[];
+  roleGrouped: Record<string, { role_name: string; agents: A[] }>;
+};
+
+export class CreditRequestError extends Error {
+  constructor(
+    message: string,
+    readonly code?: string,
+    readonly details?: unknown,
+    readonly status?: number
+  ) {
+    super(message);
+    this.name = "CreditRequestError";
+  }
+}
+
+const unwrap = <T extends SourceResult>(result: T, fallback: string): T => {
+  if (!result.success) {
+    throw new CreditRequestError(result.error || fallback, result.code, result.details, result.status);
+  }
+  return result;
+};
+
+type QueryOptions = { enabled: boolean };
+
+const balanceQueryOptions = <A>(source: CreditsSource<A>, orgId: number | undefined, { enabled }: QueryOptions) =>
+  queryOptions({
+    queryKey: queryKeys.balance(orgId),
+    queryFn: async (): Promise<CreditBalance> => {
+      const result = unwrap(await source.checkBalance(), "Failed to check balance");
+      return { balance: result.balance ?? 0, limits: result.limits ?? DEFAULT_CREDIT_LIMITS };
+    },
+    enabled,
+  });
+
+export const useBalanceQuery = <A>(source: CreditsSource<A>, orgId: number | undefined, options: QueryOptions) =>
+  useQuery(balanceQueryOptions(source, orgId, options));
+
+export type OrganizationSummary = {
+  balance: UseQueryResult<CreditBalance, Error>;
+  latest: UseQueryResult<Transaction | null, Error>;
+};
+
+// Balance and most recent transaction of every organization, all fetched in parallel. The
+// balances share their cache entries with useBalanceQuery, so switching to one of these
+// organizations shows its balance straight away.
+export const useOrganizationSummaries = <A>(
+  orgIds: number[],
+  sourceFor: (orgId: number) => CreditsSource<A>,
+  { enabled }: QueryOptions
+): Record<number, OrganizationSummary> => {
+  const results = useQueries({
+    queries: orgIds.flatMap((orgId) => {
+      const source = sourceFor(orgId);
+      return [
+        balanceQueryOptions(source, orgId, { enabled }),
+        queryOptions({
+          queryKey: queryKeys.latestTransaction(orgId),
+          queryFn: async (): Promise<Transaction | null> => {
+            const result = unwrap(await source.getHistory(1, 1), "Failed to load transactions");
+            return result.transactions?.[0] ?? null;
+          },
+          enabled,
+        }),
+      ];
+    }),
+  });
+
+  return Object.fromEntries(
+    orgIds.map((orgId, i) => [
+      orgId,
+      {
+        balance: results[i * 2] as UseQueryResult<CreditBalance, Error>,
+        latest: results[i * 2 + 1] as UseQueryResult<Transaction | null, Error>,
+      },
+    ])
+  );
+};
+
+export type HistoryScanProgress = { page: number; pages: number; rows: number };
+
+export type HistoryScan = {
+  transactions: Transaction[];
+  // Set when `maxPages` was reached before the oldest transaction
+  truncated: boolean;
+};
+
+// Walk the history page by page and collect every transaction matching `filters`. The filters
+// are applied locally as well, for servers that ignore them. Rows are keyed by ID so one that
+// shifts onto the next page while we are paging is not collected twice. `onPage` can return
+// false to stop, in which case this resolves with null.
+export const fetchAllHistory = async <A>(
+  source: CreditsSource<A>,
+  filters: HistoryFilters,
+  {
+    pageSize = 100,
+    maxPages = Infinity,
+    onPage,
+  }: { pageSize?: number; maxPages?: number; onPage?: (progress: HistoryScanProgress) => boolean | void } = {}
+): Promise<HistoryScan | null> => {
+  const filtered = hasHistoryFilters(filters);
+  const byId = new Map<string, Transaction>();
+  let page = 1;
+  let pages = 1;
+  do {
+    const result = unwrap(
+      await source.getHistory(page, pageSize, filtered ? filters : undefined),
+      "Failed to load transactions"
+    );
+    (result.transactions ?? [])
+      .filter((tx) => matchesHistoryFilters(tx, filters))
+      .forEach((tx) => byId.set(String(tx.id), tx));
+    pages = result.pages || 1;
+    if (onPage?.({ page, pages, rows: byId.size }) === false) return null;
+    page += 1;
+  } while (page <= pages && page <= maxPages);
+
+  return { transactions: [...byId.values()], truncated: page <= pages };
+};
+
+// Upper bound on how much history is scanned when filtering has to happen client-side
+const SCAN_PAGE_SIZE = 100;
+const MAX_SCAN_PAGES = 10;
+
+// Fallback for servers that ignore the filter params: collect the matching rows and cut the
+// requested page out of them
+const filterHistoryLocally = async <A>(
+  source: CreditsSource<A>,
+  page: number,
+  limit: number,
+  filters: HistoryFilters,
+  sort: HistorySort
+): Promise<HistoryPage> => {
+  const { transactions, truncated } = await fetchAllHistory(source, filters, {
+    pageSize: SCAN_PAGE_SIZE,
+    maxPages: MAX_SCAN_PAGES,
+  });
+  const sorted = sortTransactions(transactions, sort);
+  return {
+    transactions: sorted.slice((page - 1) * limit, page * limit),
+    total: sorted.length,
+    page,
+    pages: Math.max(1, Math.ceil(sorted.length / limit)),
+    filteredLocally: true,
+    truncated,
+  };
+};
+
+export const useHistoryQuery = <A>(
+  source: CreditsSource<A>,
+  orgId: number | undefined,
+  page: number,
+  limit: number,
+  filters: HistoryFilters,
+  sort: HistorySort,
+  { enabled }: QueryOptions
+) =>
+  useQuery({
+    queryKey: queryKeys.historyPage(orgId, page, limit, filters, sort),
+    queryFn: async (): Promise<HistoryPage> => {
+      const filtered = hasHistoryFilters(filters);
+      const result = unwrap(
+        await source.getHistory(page, limit, filtered ? filters : undefined, sort),
+        "Failed to load transactions"
+      );
+      const transactions = result.transactions ?? [];
+
+      // Without an explicit answer from the source, a row that doesn't match means the filters were ignored
+      const serverFiltered =
+        result.filtersApplied ?? transactions.every((tx) => matchesHistoryFilters(tx, filters));
+      if (filtered && !serverFiltered) {
+        return filterHistoryLocally(source, page, limit, filters, sort);
+      }
+
+      return {
+        transactions: sortTransactions(transactions, sort),
+        total: result.total ?? 0,
+        page: result.page || page,
+        pages: result.pages || 1,
+      };
+    },
+    enabled,
+    // Keep showing the current page while the next one loads
+    placeholderData: keepPreviousData,
+  });
+
+// Upper bound on the history pulled in for the analytics card (at 100 rows a page)
+const MAX_RANGE_PAGES = 20;
+
+export const useHistoryRangeQuery = <A>(
+  source: CreditsSource<A>,
+  orgId: number | undefined,
+  days: number,
+  { enabled }: QueryOptions
+) =>
+  useQuery({
+    queryKey: queryKeys.historyRange(orgId, days),
+    queryFn: () =>
+      fetchAllHistory(source, { ...EMPTY_HISTORY_FILTERS, from: analyticsStartDay(days) }, { maxPages: MAX_RANGE_PAGES }),
+    enabled,
+    // Keep the current charts up while another range loads
+    placeholderData: keepPreviousData,
+  });
+
+export const useAgentsQuery = <A>(source: CreditsSource<A>, orgId: number | undefined, { enabled }: QueryOptions) =>
+  useQuery({
+    queryKey: queryKeys.agents(orgId),
+    queryFn: async (): Promise<AgentsData<A>> => {
+      const [all, filtered] = await Promise.all([source.getAgents(true), source.getAgents(false)]);
+      unwrap(all, "Failed to load all agents");
+      unwrap(filtered, "Failed to load filtered agents");
+      return {
+        allAgents: Array.isArray(all.agents) ? all.agents : [],
+        filteredAgents: Array.isArray(filtered.agents) ? filtered.agents : [],
+        roleGrouped: filtered.roleGrouped ?? {},
+      };
+    },
+    enabled,
+  });
+
+type CreditChangeContext = {
+  previousBalance: CreditBalance | undefined;
+  previousHistory: [QueryKey, HistoryPage | undefined][];
+  pendingTx: HistoryTransaction;
+};
+
+let pendingCounter = 0;
+
+type HistoryPageKeyParams = { page?: number; filters?: HistoryFilters } | undefined;
+
+// First pages whose filters (if any) the transaction passes
+const isFirstHistoryPageFor = (queryKey: QueryKey, tx: Transaction) => {
+  const params = queryKey[3] as HistoryPageKeyParams;
+  return params?.page === 1 && (!params.filters || matchesHistoryFilters(tx, params.filters));
+};
+
+// Spends and adds are applied optimistically: the balance moves and a pending row is put at
+// the top of the first history page straight away. On success both settle to the server's
+// new balance; on failure the cache is restored from the snapshot. Either way balance and
+// every history page are refetched afterwards.
+const useCreditChange = <V extends { amount: number; description: string; referenceId: string; agentId?: number }>(
+  orgId: number | undefined,
+  mutate: (variables: V) => Promise<CreditChangeSourceResult>,
+  { sign, type, fallback }: { sign: 1 | -1; type: string; fallback: string }
+) => {
+  const queryClient = useQueryClient();
+  const balanceKey = queryKeys.balance(orgId);
+  const historyKey = queryKeys.history(orgId);
+
+  const updateFirstPage = (tx: Transaction, update: (page: HistoryPage) => HistoryPage) =>
+    queryClient.setQueriesData<HistoryPage>(
+      { queryKey: historyKey, predicate: (query) => isFirstHistoryPageFor(query.queryKey, tx) },
+      (page) => (page ? update(page) : page)
+    );
+
+  const setBalance = (balance: number) =>
+    queryClient.setQueryData<CreditBalance>(balanceKey, (current) => ({
+      limits: current?.limits ?? DEFAULT_CREDIT_LIMITS,
+      balance,
+    }));
+
+  return useMutation<CreditChangeSourceResult, CreditRequestError, V, CreditChangeContext>({
+    mutationFn: async (variables) => unwrap(await mutate(variables), fallback),
+    onMutate: async ({ amount, description, referenceId, agentId }) => {
+      await Promise.all([
+        queryClient.cancelQueries({ queryKey: balanceKey }),
+        queryClient.cancelQueries({ queryKey: historyKey }),
+      ]);
+
+      const previousBalance = queryClient.getQueryData<CreditBalance>(balanceKey);
+      const previousHistory = queryClient.getQueriesData<HistoryPage>({ queryKey: historyKey });
+      const optimisticBalance = (previousBalance?.balance ?? 0) + sign * amount;
+      const pendingId = `pending-${++pendingCounter}`;
+
+      const pendingTx = {
+        id: pendingId,
+        type,
+        amount,
+        description,
+        reference_id: referenceId,
+        agent_id: agentId,
+        created_at: new Date().toISOString(),
+        balance_after: optimisticBalance,
+        pending: true,
+      } as HistoryTransaction;
+
+      setBalance(optimisticBalance);
+      updateFirstPage(pendingTx, (page) => ({
+        ...page,
+        total: page.total + 1,
+        transactions: [pendingTx, ...page.transactions],
+      }));
+
+      return { previousBalance, previousHistory, pendingTx };
+    },
+    onSuccess: (result, _variables, context) => {
+      if (typeof result.newBalance !== "number") return;
+      setBalance(result.newBalance);
+      if (!context) return;
+      updateFirstPage(context.pendingTx, (page) => ({
+        ...page,
+        transactions: page.transactions.map((tx) =>
+          tx.id === context.pendingTx.id ? { ...tx, balance_after: result.newBalance, pending: false } : tx
+        ),
+      }));
+    },
+    onError: (_error, _variables, context) => {
+      if (!context) return;
+      queryClient.setQueryData(balanceKey, context.previousBalance);
+      context.previousHistory.forEach(([key, data]) => queryClient.setQueryData(key, data));
+    },
+    onSettled: () =>
+      Promise.all([
+        queryClient.invalidateQueries({ queryKey: balanceKey }),
+        queryClient.invalidateQueries({ queryKey: historyKey }),
+      ]),
+  });
+};
+
+export const useSpendCreditsMutation = <A>(source: CreditsSource<A>, orgId: number | undefined) =>
+  useCreditChange(
+    orgId,
+    ({
+      amount,
+      description,
+      referenceId,
+      agentId,
+    }: {
+      amount: number;
+      description: string;
+      referenceId: string;
+      agentId?: number;
+    }) => source.spendCredits(amount, description, referenceId, agentId),
+    { sign: -1, type: "spend", fallback: "Failed to spend credits" }
+  );
+
+export const useAddCreditsMutation = <A>(source: CreditsSource<A>, orgId: number | undefined) =>
+  useCreditChange(
+    orgId,
+    ({
+      amount,
+      type,
+      description,
+      referenceId,
+    }: {
+      amount: number;
+      type: string;
+      description: string;
+      referenceId: string;
+    }) => source.addCredits(amount, type, description, referenceId),
+    { sign: 1, type: "manual", fallback: "Failed to add credits" }
+  );
@@ -0,0 +1,20 @@
+import { useEffect, useRef } from "react";
+import { getEmbedBus } from "@/lib/embedBus";
+import type { ParentMessage, ParentMessageType } from "@/lib/embedBus";
+
+// Subscribe to one parent message type for the lifetime of the component.
+// The latest handler is always used, so callers don't need to memoize it.
+export function useEmbedMessage<T extends ParentMessageType>(
+  type: T,
+  handler: (message: ParentMessage<T>) => void,
+  enabled: boolean = true
+) {
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => {
+    const bus = enabled ? getEmbedBus() : null;
+    if (!bus) return;
+    return bus.on(type, (message) => handlerRef.current(message));
+  }, [type, enabled]);
+}
@@ -0,0 +1,11 @@
+import { useEffect, useSyncExternalStore } from "react";
+import { getEventLog, loadEventLog, subscribeToEventLog } from "@/lib/eventLog";
+
+// The event log entries (oldest first), re-rendering on every change. The persisted log is
+// loaded on first use.
+export function useEventLog() {
+  useEffect(() => {
+    loadEventLog();
+  }, []);
+  return useSyncExternalStore(subscribeToEventLog, getEventLog);
+}
@@ -0,0 +1,61 @@
+import { useRef, useState } from "react";
+import { fetchAllHistory, type CreditsSource, type HistoryScanProgress } from "@/hooks/use-credits";
+import { EMPTY_HISTORY_FILTERS } from "@/lib/historyFilters";
+import { downloadFile } from "@/lib/download";
+import {
+  EXPORT_MIME_TYPES,
+  exportFileName,
+  sortExportRows,
+  toCsv,
+  toExportRow,
+  toJson,
+  type ExportFormat,
+} from "@/lib/historyExport";
+
+const EXPORT_PAGE_SIZE = 100;
+
+export type ExportRange = { from?: string; to?: string };
+
+// Pages through the whole history of the organization (bypassing the query cache, which
+// only holds the pages that were looked at) and downloads it as a statement file.
+// Resolves with the number of exported rows, or null when cancelled.
+export const useHistoryExport = <A>(source: CreditsSource<A>, orgId: number | undefined) => {
+  const [progress, setProgress] = useState<HistoryScanProgress | null>(null);
+  const cancelledRef = useRef(false);
+
+  const exportHistory = async (format: ExportFormat, { from, to }: ExportRange): Promise<number | null> => {
+    cancelledRef.current = false;
+    setProgress({ page: 0, pages: 1, rows: 0 });
+
+    try {
+      const scan = await fetchAllHistory(
+        source,
+        { ...EMPTY_HISTORY_FILTERS, from, to },
+        {
+          pageSize: EXPORT_PAGE_SIZE,
+          onPage: (next) => {
+            setProgress(next);
+            return !cancelledRef.current;
+          },
+        }
+      );
+      if (!scan) return null;
+
+      const rows = sortExportRows(scan.transactions.map(toExportRow));
+      downloadFile(
+        format === "csv" ? toCsv(rows) : toJson(rows),
+        exportFileName(format, orgId, from, to),
+        EXPORT_MIME_TYPES[format]
+      );
+      return rows.length;
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const cancel = () => {
+    cancelledRef.current = true;
+  };
+
+  return { exportHistory, cancel, progress, isExporting: progress !== null };
+};
@@ -0,0 +1,71 @@
+import { useEffect, useRef } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { getEmbedBus } from "@/lib/embedBus";
+import { queryKeys } from "@/lib/queryKeys";
+import {
+  getStoredLowBalanceThreshold,
+  isLowBalance,
+  loadLowBalanceThreshold,
+  saveLowBalanceThreshold,
+} from "@/lib/lowBalance";
+
+export const useLowBalanceThreshold = (orgId: number | undefined, { enabled }: { enabled: boolean }) =>
+  useQuery({
+    queryKey: queryKeys.lowBalanceThreshold(orgId),
+    queryFn: () => loadLowBalanceThreshold(orgId as number),
+    enabled: enabled && !!orgId,
+    // The local copy is good enough to show while the settings endpoint answers
+    placeholderData: () => (orgId ? getStoredLowBalanceThreshold(orgId) : undefined),
+    staleTime: 5 * 60 * 1000,
+  });
+
+export const useSaveLowBalanceThreshold = (orgId: number | undefined) => {
+  const queryClient = useQueryClient();
+  return useMutation<number, Error, number>({
+    mutationFn: (threshold) => saveLowBalanceThreshold(orgId as number, threshold),
+    // The threshold is stored locally even when the server rejects it, so show that value either way
+    onSettled: () => {
+      if (orgId) {
+        queryClient.setQueryData(queryKeys.lowBalanceThreshold(orgId), getStoredLowBalanceThreshold(orgId));
+      }
+    },
+  });
+};
+
+type LowBalanceAlertOptions = {
+  orgId: number | undefined;
+  orgName?: string;
+  balance: number | null;
+  threshold: number | undefined;
+  // False while a spend/add is in flight, so an optimistic balance doesn't trigger the alert
+  settled: boolean;
+  embedded: boolean;
+};
+
+// Notify once each time an organization's balance drops below its threshold: a sonner toast,
+// plus a LOW_BALANCE message to the parent in embedded mode. Going back above the threshold
+// re-arms the alert. Returns whether the balance is currently low.
+export const useLowBalanceAlert = ({ orgId, orgName, balance, threshold, settled, embedded }: LowBalanceAlertOptions) => {
+  const alertedRef = useRef(new Set<number>());
+  const low = balance != null && threshold !== undefined && isLowBalance(balance, threshold);
+
+  useEffect(() => {
+    if (!orgId || balance == null || threshold === undefined || !settled) return;
+    if (!low) {
+      alertedRef.current.delete(orgId);
+      return;
+    }
+    if (alertedRef.current.has(orgId)) return;
+    alertedRef.current.add(orgId);
+
+    toast.warning(`Low balance${orgName ? ` for ${orgName}` : ""}`, {
+      description: `${balance.toLocaleString()} credits left, below your alert threshold of ${threshold.toLocaleString()}.`,
+    });
+    if (embedded) {
+      getEmbedBus()?.send("LOW_BALANCE", { organizationId: orgId, balance, threshold });
+    }
+  }, [orgId, orgName, balance, threshold, settled, embedded, low]);
+
+  return low;
+};
@@ -0,0 +1,99 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import { queryKeys } from "@/lib/queryKeys";
+import {
+  applyPersonaInput,
+  createPersona,
+  deletePersona,
+  getPersona,
+  isPersonaNotFound,
+  listPersonas,
+  updatePersona,
+  type Persona,
+  type PersonaInput,
+} from "@/lib/personasService";
+
+type ListContext = { previous?: Persona[] };
+
+// Optimistically created personas get a negative temporary ID until the API assigns one
+let tempPersonaId = 0;
+
+export const usePersonasQuery = () => {
+  const { selectedOrganization } = useAuth();
+  return useQuery({
+    queryKey: queryKeys.personas(selectedOrganization?.id),
+    queryFn: listPersonas,
+  });
+};
+
+export const usePersonaQuery = (id: number) => {
+  const { selectedOrganization } = useAuth();
+  return useQuery({
+    queryKey: queryKeys.persona(selectedOrganization?.id, id),
+    queryFn: () => getPersona(id),
+    enabled: Number.isInteger(id) && id > 0,
+    // A 404 won't fix itself on retry
+    retry: (failureCount, error) => !isPersonaNotFound(error) && failureCount < 3,
+  });
+};
+
+// Create/update/delete with optimistic list updates: the cached list changes immediately,
+// is rolled back if the request fails, and is refetched once it settles.
+export const usePersonaMutations = () => {
+  const queryClient = useQueryClient();
+  const { selectedOrganization } = useAuth();
+  const listKey = queryKeys.personas(selectedOrganization?.id);
+
+  const snapshot = async (update: (personas: Persona[]) => Persona[]) => {
+    await queryClient.cancelQueries({ queryKey: listKey });
+    const previous = queryClient.getQueryData<Persona[]>(listKey);
+    queryClient.setQueryData<Persona[]>(listKey, (current = []) => update(current));
+    return { previous };
+  };
+
+  const rollback = (_error: Error, _variables: unknown, context?: ListContext) => {
+    if (context?.previous) {
+      queryClient.setQueryData(listKey, context.previous);
+    }
+  };
+
+  const settle = () => queryClient.invalidateQueries({ queryKey: listKey });
+
+  const create = useMutation<Persona, Error, PersonaInput, ListContext & { tempId?: number }>({
+    mutationFn: (input: PersonaInput) => createPersona(input),
+    onMutate: async (input) => {
+      const tempId = --tempPersonaId;
+      const context = await snapshot((personas) => [{ ...input, id: tempId }, ...personas]);
+      return { ...context, tempId };
+    },
+    onSuccess: (persona, _input, context) => {
+      queryClient.setQueryData<Persona[]>(listKey, (current = []) =>
+        current.map((p) => (p.id === context?.tempId ? persona : p))
+      );
+    },
+    onError: rollback,
+    onSettled: settle,
+  });
+
+  const update = useMutation<Persona, Error, { id: number; input: PersonaInput }, ListContext>({
+    mutationFn: ({ id, input }: { id: number; input: PersonaInput }) => updatePersona(id, input),
+    onMutate: ({ id, input }) => snapshot((personas) => personas.map((p) => (p.id === id ? applyPersonaInput(p, input) : p))),
+    onSuccess: (persona) => {
+      queryClient.setQueryData(queryKeys.persona(selectedOrganization?.id, persona.id), persona);
+    },
+    onError: rollback,
+    onSettled: settle,
+  });
+
+  const remove = useMutation<void, Error, number, ListContext>({
+    mutationFn: (id: number) => deletePersona(id),
+    onMutate: (id) => snapshot((personas) => personas.filter((p) => p.id !== id)),
+    onSuccess: (_data, id) => {
+      queryClient.removeQueries({ queryKey: queryKeys.persona(selectedOrganization?.id, id) });
+    },
+    onError: rollback,
+    onSettled: settle,
+  });
+
+  return { create, update, remove };
+};
@@ -0,0 +1,96 @@
+import type { Agent, RoleGroupedAgents } from "@/lib/agents";
+
+// Search and filtering for the AI agent catalogue
+
+export type AgentScope = "mine" | "all";
+
+export type AgentCatalogueFilters = {
+  query: string;
+  roleIds: string[];
+  statuses: string[];
+  grantTypes: string[];
+  defaultOnly: boolean;
+};
+
+export const EMPTY_AGENT_FILTERS: AgentCatalogueFilters = {
+  query: "",
+  roleIds: [],
+  statuses: [],
+  grantTypes: [],
+  defaultOnly: false,
+};
+
+export const countActiveAgentFilters = (filters: AgentCatalogueFilters) =>
+  filters.roleIds.length + filters.statuses.length + filters.grantTypes.length + (filters.defaultOnly ? 1 : 0);
+
+// Subsequence match of `query` in `text`, or 0 when not every character is found in order.
+// Consecutive characters and matches at word starts score higher, so "mktg" ranks
+// "Marketing Agent" above "Monthly Kit Tagging".
+export const fuzzyScore = (text: string, query: string) => {
+  const haystack = text.toLowerCase();
+  const needle = query.toLowerCase().replace(/\s+/g, "");
+  if (!needle) return 1;
+
+  const direct = haystack.indexOf(needle);
+  if (direct !== -1) {
+    const atWordStart = direct === 0 || /\W/.test(haystack[direct - 1]);
+    return 100 + needle.length * 3 + (atWordStart ? 20 : 0) - direct * 0.1;
+  }
+
+  let score = 0;
+  let position = -1;
+  let streak = 0;
+  for (const char of needle) {
+    const next = haystack.indexOf(char, position + 1);
+    if (next === -1) return 0;
+    streak = next === position + 1 ? streak + 1 : 0;
+    const atWordStart = next === 0 || /\W/.test(haystack[next - 1]);
+    score += 1 + streak * 2 + (atWordStart ? 3 : 0);
+    position = next;
+  }
+  return score;
+};
+
+// Name matches outrank matches in the descriptions
+export const agentSearchScore = (agent: Agent, query: string) => {
+  if (!query.trim()) return 1;
+  return Math.max(
+    fuzzyScore(agent.name ?? "", query) * 2,
+    fuzzyScore(agent.short_desc ?? "", query),
+    fuzzyScore(agent.description ?? "", query)
+  );
+};
+
+// Role IDs (from the user's role grouping) that grant each agent
+export const agentRoleIndex = (roleGrouped: RoleGroupedAgents) => {
+  const index = new Map<number, string[]>();
+  Object.entries(roleGrouped).forEach(([roleId, role]) =>
+    role.agents.forEach((agent) => index.set(agent.id, [...(index.get(agent.id) ?? []), roleId]))
+  );
+  return index;
+};
+
+export const distinctAgentValues = (agents: Agent[], field: "status" | "grant_type") =>
+  [...new Set(agents.map((agent) => agent[field]).filter((value): value is string => !!value))].sort();
+
+// Matching agents, best search match first (catalogue order is kept when not searching)
+export const filterAgents = (
+  agents: Agent[],
+  filters: AgentCatalogueFilters,
+  roleIndex: Map<number, string[]>
+): Agent[] =>
+  agents
+    .filter((agent) => {
+      if (filters.defaultOnly && !agent.is_default) return false;
+      if (filters.statuses.length > 0 && !filters.statuses.includes(agent.status ?? "")) return false;
+      if (filters.grantTypes.length > 0 && !filters.grantTypes.includes(agent.grant_type ?? "")) return false;
+      if (filters.roleIds.length > 0) {
+        const roles = roleIndex.get(agent.id) ?? [];
+        if (!filters.roleIds.some((roleId) => roles.includes(roleId))) return false;
+      }
+      return true;
+    })
+    .map((agent, order) => ({ agent, order, score: agentSearchScore(agent, filters.query) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score || a.order - b.order)
+    .map(({ agent }) => agent);
@@ -0,0 +1,62 @@
+import type { Transaction } from "@supreme-ai/si-sdk";
+import type { Agent } from "@/lib/agents";
+import { normalizeTransactionType } from "@/lib/creditAnalytics";
+
+// Attribution of credit spends to AI agents. Transactions have no agent field of their own,
+// so spends made for an agent from the credit operations panel carry it in their reference
+// as "agent:<id>:<idempotency key>" (and as `agent_id` in the request, for servers that
+// store it). Older transactions are matched on the agent's assistant ID in the reference.
+
+const AGENT_REFERENCE = /^agent[:_-](\d+)(?:[:_-]|$)/i;
+
+export const agentReference = (agentId: number | undefined, referenceId: string) =>
+  agentId === undefined ? referenceId : `agent:${agentId}:${referenceId}`;
+
+const referencedAgentId = (tx: Transaction): number | null => {
+  const echoed = Number((tx as Transaction & { agent_id?: unknown }).agent_id);
+  if (Number.isFinite(echoed) && echoed > 0) return echoed;
+  const match = AGENT_REFERENCE.exec(tx.reference_id ?? "");
+  return match ? Number(match[1]) : null;
+};
+
+export type AgentAttribution = (tx: Transaction) => Agent | null;
+
+export const createAgentAttribution = (agents: Agent[]): AgentAttribution => {
+  const byId = new Map(agents.map((agent) => [agent.id, agent]));
+  const byAssistant = new Map(
+    agents.filter((agent) => agent.assistant_id).map((agent) => [agent.assistant_id as string, agent])
+  );
+  return (tx) => {
+    const agentId = referencedAgentId(tx);
+    if (agentId !== null) return byId.get(agentId) ?? null;
+    if (byAssistant.size === 0 || !tx.reference_id) return null;
+    const token = tx.reference_id.split(/[\s:|/]+/).find((part) => byAssistant.has(part));
+    return token ? byAssistant.get(token) ?? null : null;
+  };
+};
+
+export type AgentSpendSummary = {
+  spent: number;
+  count: number;
+  lastSpentAt: string | null;
+};
+
+export const EMPTY_AGENT_SPEND: AgentSpendSummary = { spent: 0, count: 0, lastSpentAt: null };
+
+// Credits spent per agent ID; refunds and cancelled spends are not netted off
+export const summarizeAgentSpend = (transactions: Transaction[], attribute: AgentAttribution) => {
+  const summaries = new Map<number, AgentSpendSummary>();
+  transactions.forEach((tx) => {
+    if (normalizeTransactionType(tx.type) !== "spend") return;
+    const agent = attribute(tx);
+    if (!agent) return;
+    const summary = summaries.get(agent.id) ?? { ...EMPTY_AGENT_SPEND };
+    summary.spent += Math.abs(Number(tx.amount) || 0);
+    summary.count += 1;
+    if (!summary.lastSpentAt || new Date(tx.created_at) > new Date(summary.lastSpentAt)) {
+      summary.lastSpentAt = tx.created_at;
+    }
+    summaries.set(agent.id, summary);
+  });
+  return summaries;
+};
@@ -0,0 +1,78 @@
+import { getEmbedBus } from "@/lib/embedBus";
+
+// AI agents as returned by the agents API (the SDK does not export a type for them)
+export type Agent = {
+  id: number;
+  name: string;
+  description?: string;
+  short_desc?: string;
+  assistant_id?: string;
+  is_default?: boolean;
+  grant_type?: string;
+  status?: string;
+  created_at?: string;
+  updated_at?: string;
+  [key: string]: unknown;
+};
+
+export type RoleGroupedAgents = {
+  [roleId: string]: {
+    role_name: string;
+    agents: Agent[];
+  };
+};
+
+export type AgentsResult = {
+  success: boolean;
+  error?: string;
+  agents?: Agent[];
+  roleGrouped?: RoleGroupedAgents;
+  total?: number;
+};
+
+export type AgentRole = { roleId: string; roleName: string };
+
+// The user's roles that grant this agent
+export const agentRoles = (agent: Agent, roleGrouped: RoleGroupedAgents): AgentRole[] =>
+  Object.entries(roleGrouped)
+    .filter(([, role]) => role.agents.some((roleAgent) => roleAgent.id === agent.id))
+    .map(([roleId, role]) => ({ roleId, roleName: role.role_name }));
+
+export type AgentStatusChange = { status: string; at?: string };
+
+// Newest first. The API only sends `status_history` for some agents; otherwise the current
+// status is all we know, dated by the last update.
+export const agentStatusHistory = (agent: Agent): AgentStatusChange[] => {
+  const history = Array.isArray(agent.status_history) ? agent.status_history : [];
+  const changes = history
+    .filter((entry: unknown): entry is Record<string, unknown> => !!entry && typeof entry === "object")
+    .map((entry) => ({
+      status: String(entry.status ?? ""),
+      at: (entry.changed_at ?? entry.created_at ?? entry.at) as string | undefined,
+    }))
+    .filter((change) => change.status)
+    .sort((a, b) => new Date(b.at ?? 0).getTime() - new Date(a.at ?? 0).getTime());
+  if (changes.length > 0) return changes;
+  return agent.status ? [{ status: agent.status, at: agent.updated_at ?? agent.created_at }] : [];
+};
+
+// Where a standalone launch opens the agent; `{assistant_id}` is replaced
+const AGENT_LAUNCH_URL =
+  import.meta.env.VITE_AGENT_LAUNCH_URL || "https://app.supremegroup.ai/ai-agents/{assistant_id}";
+
+export const agentLaunchUrl = (assistantId: string) =>
+  AGENT_LAUNCH_URL.replace("{assistant_id}", encodeURIComponent(assistantId));
+
+// Embedded: ask the parent application to open the agent. Standalone: open it in a new tab.
+// Returns false when it could not be launched (no assistant, or no reachable parent).
+export const launchAgent = (agent: Agent, embedded: boolean) => {
+  if (!agent.assistant_id) return false;
+  if (embedded) {
+    const bus = getEmbedBus();
+    if (!bus) return false;
+    bus.send("LAUNCH_AGENT", { agentId: agent.id, assistantId: agent.assistant_id, name: agent.name });
+    return true;
+  }
+  window.open(agentLaunchUrl(agent.assistant_id), "_blank", "noopener,noreferrer");
+  return true;
+};
@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import { normalizeAgentsResponse, normalizeSdkAgentsResult } from "@/lib/agentsResponse";
+
+const alpha = { id: 1, name: "Alpha", status: "active" };
+const beta = { id: 2, name: "Beta" };
+const gamma = { id: 3, name: "Gamma" };
+
+const ids = (agents: { id: number }[] | undefined) => (agents ?? []).map((agent) => agent.id);
+
+describe("normalizeAgentsResponse", () => {
+  it("accepts a bare array", () => {
+    const result = normalizeAgentsResponse([alpha, beta]);
+    expect(result).toEqual({ success: true, agents: [alpha, beta], roleGrouped: {}, total: 2 });
+  });
+
+  it("accepts the `agents.all` bucket", () => {
+    const result = normalizeAgentsResponse({ agents: { all: [alpha, beta, gamma] } });
+    expect(ids(result.agents)).toEqual([1, 2, 3]);
+    expect(result.roleGrouped).toEqual({});
+    expect(result.total).toBe(3);
+  });
+
+  it("accepts a direct `agents` array", () => {
+    const result = normalizeAgentsResponse({ agents: [beta] });
+    expect(ids(result.agents)).toEqual([2]);
+    expect(result.roleGrouped).toEqual({});
+  });
+
+  it("groups role-keyed `{ role_name, agents }` entries", () => {
+    const result = normalizeAgentsResponse({
+      agents: {
+        "2": { role_name: "CEO", agents: [alpha, beta] },
+        "5": { agents: [gamma] },
+      },
+    });
+    expect(ids(result.agents)).toEqual([1, 2, 3]);
+    expect(Object.keys(result.roleGrouped ?? {})).toEqual(["2", "5"]);
+    expect(result.roleGrouped?.["2"]).toEqual({ role_name: "CEO", agents: [alpha, beta] });
+    // A role without a name gets a placeholder
+    expect(result.roleGrouped?.["5"].role_name).toBe("Role 5");
+  });
+
+  it("flattens legacy role-keyed arrays without grouping them", () => {
+    const result = normalizeAgentsResponse({ agents: { "2": [alpha], "3": [beta, gamma] } });
+    expect(ids(result.agents)).toEqual([1, 2, 3]);
+    expect(result.roleGrouped).toEqual({});
+  });
+
+  it("unwraps the `{ data }` wrapper", () => {
+    const result = normalizeAgentsResponse({ data: [alpha, gamma] });
+    expect(ids(result.agents)).toEqual([1, 3]);
+  });
+
+  it("lists an agent granted through several roles once, keeping it in each role", () => {
+    const result = normalizeAgentsResponse({
+      agents: {
+        "2": { role_name: "CEO", agents: [alpha, beta] },
+        "3": { role_name: "Manager", agents: [beta, gamma] },
+      },
+    });
+    expect(ids(result.agents)).toEqual([1, 2, 3]);
+    expect(result.total).toBe(3);
+    expect(ids(result.roleGrouped?.["2"].agents)).toEqual([1, 2]);
+    expect(ids(result.roleGrouped?.["3"].agents)).toEqual([2, 3]);
+  });
+
+  it("drops entries without a usable id or name", () => {
+    const result = normalizeAgentsResponse([
+      alpha,
+      { name: "No id" },
+      { id: "abc", name: "Bad id" },
+      { id: 4 },
+      { id: 5, name: "   " },
+      null,
+      "agent",
+      { id: "6", name: "String id" },
+    ]);
+    expect(result.agents).toEqual([alpha, { id: 6, name: "String id" }]);
+  });
+
+  it("returns an empty result for unknown shapes", () => {
+    expect(normalizeAgentsResponse(null)).toEqual({ success: true, agents: [], roleGrouped: {}, total: 0 });
+    expect(normalizeAgentsResponse({ agents: "none" }).agents).toEqual([]);
+  });
+});
+
+describe("normalizeSdkAgentsResult", () => {
+  it("merges and de-duplicates the SDK's agents and role groups", () => {
+    const result = normalizeSdkAgentsResult({
+      success: true,
+      agents: [alpha, alpha, { id: 9 }],
+      roleGrouped: { "7": { role_name: "Ops", agents: [alpha, beta] }, all: [gamma] },
+    });
+    expect(ids(result.agents)).toEqual([1, 2]);
+    expect(result.roleGrouped).toEqual({ "7": { role_name: "Ops", agents: [alpha, beta] } });
+    expect(result.total).toBe(2);
+  });
+
+  it("passes failures through with empty data", () => {
+    expect(normalizeSdkAgentsResult({ success: false, error: "Unauthorized", agents: [alpha] })).toEqual({
+      success: false,
+      error: "Unauthorized",
+      agents: [],
+      roleGrouped: {},
+      total: 0,
+    });
+  });
+});
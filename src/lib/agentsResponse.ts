@@ -0,0 +1,97 @@
+import type { Agent, AgentsResult, RoleGroupedAgents } from "@/lib/agents";
+
+// The agents API answers in several shapes depending on the caller's role and on `all=true`:
+//
+//   1. bare array                 [agent, ...]
+//   2. "all" bucket               { agents: { all: [agent, ...] } }   (all=true, or admins)
+//   3. direct array               { agents: [agent, ...] }
+//   4. role-keyed groups          { agents: { "2": { role_name: "CEO", agents: [agent, ...] } } }
+//   5. legacy role-keyed arrays   { agents: { "2": [agent, ...] } }
+//
+// plus `{ data: [agent, ...] }` from older deployments. Everything is turned into one
+// AgentsResult here. Agents granted through several roles stay in each of their roles but
+// appear once in `agents`; entries without a usable id or name are dropped.
+
+type UnknownRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is UnknownRecord =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+const toAgent = (value: unknown): Agent | null => {
+  if (!isRecord(value)) return null;
+  const id = Number(value.id);
+  if (!Number.isFinite(id) || typeof value.name !== "string" || !value.name.trim()) return null;
+  return { ...value, id, name: value.name } as Agent;
+};
+
+const dedupe = (agents: Agent[]) => {
+  const seen = new Set<number>();
+  return agents.filter((agent) => {
+    if (seen.has(agent.id)) return false;
+    seen.add(agent.id);
+    return true;
+  });
+};
+
+const toAgents = (value: unknown): Agent[] =>
+  Array.isArray(value) ? dedupe(value.map(toAgent).filter((agent): agent is Agent => !!agent)) : [];
+
+const normalizeRoleGroups = (groups: UnknownRecord): { agents: Agent[]; roleGrouped: RoleGroupedAgents } => {
+  const roleGrouped: RoleGroupedAgents = {};
+  const agents: Agent[] = [];
+  Object.entries(groups).forEach(([roleId, group]) => {
+    // "all" is the bucket used by shape 2, never a role
+    if (roleId === "all") return;
+    if (Array.isArray(group)) {
+      // Shape 5: no role name to group under
+      agents.push(...toAgents(group));
+    } else if (isRecord(group) && Array.isArray(group.agents)) {
+      const roleAgents = toAgents(group.agents);
+      roleGrouped[roleId] = {
+        role_name: typeof group.role_name === "string" && group.role_name ? group.role_name : `Role ${roleId}`,
+        agents: roleAgents,
+      };
+      agents.push(...roleAgents);
+    }
+  });
+  return { agents: dedupe(agents), roleGrouped };
+};
+
+const result = (agents: Agent[], roleGrouped: RoleGroupedAgents = {}): AgentsResult => ({
+  success: true,
+  agents,
+  roleGrouped,
+  total: agents.length,
+});
+
+// Normalize the `data` of an agents API response
+export const normalizeAgentsResponse = (data: unknown): AgentsResult => {
+  if (Array.isArray(data)) return result(toAgents(data));
+  if (!isRecord(data)) return result([]);
+
+  const { agents } = data;
+  if (Array.isArray(agents)) return result(toAgents(agents));
+  if (isRecord(agents)) {
+    if (Array.isArray(agents.all)) return result(toAgents(agents.all));
+    const { agents: grouped, roleGrouped } = normalizeRoleGroups(agents);
+    return result(grouped, roleGrouped);
+  }
+  if (Array.isArray(data.data)) return result(toAgents(data.data));
+  return result([]);
+};
+
+// The SDK already splits its answer into `agents` and `roleGrouped`, but with the same
+// duplicates and loose entries as the raw API, so it gets the same treatment
+export const normalizeSdkAgentsResult = (sdkResult: {
+  success: boolean;
+  error?: string;
+  agents?: unknown;
+  roleGrouped?: unknown;
+}): AgentsResult => {
+  if (!sdkResult.success) {
+    return { success: false, error: sdkResult.error, agents: [], roleGrouped: {}, total: 0 };
+  }
+  const fromGroups = isRecord(sdkResult.roleGrouped) ? normalizeRoleGroups(sdkResult.roleGrouped) : null;
+  const agents = dedupe([...toAgents(sdkResult.agents), ...(fromGroups?.agents ?? [])]);
+  return result(agents, fromGroups?.roleGrouped ?? {});
+};
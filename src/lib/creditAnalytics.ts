@@ -0,0 +1,137 @@
+import type { Transaction } from "@supreme-ai/si-sdk";
+import { eachDayOfInterval, format, startOfDay, subDays } from "date-fns";
+import { SPEND_TYPE_ALIASES, TRANSACTION_TYPE_LABELS, type TransactionType } from "@/lib/historyFilters";
+
+// Aggregations behind the credits analytics card. Days are local calendar days.
+
+export const ANALYTICS_RANGES = [7, 30, 90] as const;
+
+export type AnalyticsRange = (typeof ANALYTICS_RANGES)[number];
+
+export const DEFAULT_ANALYTICS_RANGE: AnalyticsRange = 30;
+
+const dayKey = (date: Date) => format(date, "yyyy-MM-dd");
+
+// First day (yyyy-MM-dd) covered by a range ending today
+export const analyticsStartDay = (days: number, today = new Date()) => dayKey(subDays(today, days - 1));
+
+export const normalizeTransactionType = (type: string | undefined) => {
+  const lower = (type ?? "").toLowerCase();
+  return SPEND_TYPE_ALIASES.includes(lower) ? "spend" : lower;
+};
+
+// Direction of a transaction's effect on the balance; cancelled rows don't move it
+const transactionSign = (type: string | undefined) => {
+  const normalized = normalizeTransactionType(type);
+  if (normalized === "spend") return -1;
+  if (normalized === "cancelled") return 0;
+  return 1;
+};
+
+const oldestFirst = (transactions: Transaction[]) =>
+  [...transactions].sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+
+export type DailyPoint = {
+  day: string;
+  label: string;
+  // Closing balance of the day; null while it can't be known
+  balance: number | null;
+  spent: number;
+  added: number;
+};
+
+// One point per day of the range. The balance line follows `balance_after`; days before the
+// first transaction carry the opening balance implied by it, or `currentBalance` when the
+// range has no transactions at all.
+export const buildDailySeries = (
+  transactions: Transaction[],
+  days: number,
+  currentBalance: number | null = null,
+  today = new Date()
+): DailyPoint[] => {
+  const sorted = oldestFirst(transactions);
+  const byDay = new Map<string, Transaction[]>();
+  sorted.forEach((tx) => {
+    const created = new Date(tx.created_at);
+    if (Number.isNaN(created.getTime())) return;
+    const key = dayKey(created);
+    byDay.set(key, [...(byDay.get(key) ?? []), tx]);
+  });
+
+  const first = sorted[0];
+  let balance: number | null = first
+    ? Number(first.balance_after) - transactionSign(first.type) * Math.abs(Number(first.amount) || 0)
+    : currentBalance;
+
+  return eachDayOfInterval({ start: startOfDay(subDays(today, days - 1)), end: startOfDay(today) }).map((date) => {
+    const key = dayKey(date);
+    let spent = 0;
+    let added = 0;
+    (byDay.get(key) ?? []).forEach((tx) => {
+      const amount = Math.abs(Number(tx.amount) || 0);
+      const sign = transactionSign(tx.type);
+      if (sign < 0) spent += amount;
+      if (sign > 0) added += amount;
+      balance = Number(tx.balance_after);
+    });
+    return { day: key, label: format(date, "MMM d"), balance, spent, added };
+  });
+};
+
+export type BreakdownEntry = {
+  key: string;
+  label: string;
+  amount: number;
+  count: number;
+};
+
+const sumBy = (transactions: Transaction[], keyOf: (tx: Transaction) => string) => {
+  const entries = new Map<string, { amount: number; count: number }>();
+  transactions.forEach((tx) => {
+    const key = keyOf(tx);
+    const entry = entries.get(key) ?? { amount: 0, count: 0 };
+    entry.amount += Math.abs(Number(tx.amount) || 0);
+    entry.count += 1;
+    entries.set(key, entry);
+  });
+  return [...entries.entries()]
+    .map(([key, { amount, count }]) => ({ key, label: key, amount, count }))
+    .sort((a, b) => b.amount - a.amount);
+};
+
+export const breakdownByType = (transactions: Transaction[]): BreakdownEntry[] =>
+  sumBy(transactions, (tx) => normalizeTransactionType(tx.type) || "unknown").map((entry) => ({
+    ...entry,
+    label: TRANSACTION_TYPE_LABELS[entry.key as TransactionType] ?? entry.key,
+  }));
+
+const NO_DESCRIPTION = "(no description)";
+const MAX_PREFIX_LENGTH = 32;
+
+// Descriptions follow "<Feature>: <details>" or "<Feature> - <details>" by convention; the
+// part before the separator is used as the category
+export const descriptionPrefix = (description: string | undefined) => {
+  const text = (description ?? "").trim();
+  if (!text) return NO_DESCRIPTION;
+  const [head] = text.split(/\s*[:|–—]\s*|\s+-\s+/);
+  const prefix = head || text;
+  return prefix.length > MAX_PREFIX_LENGTH ? `${prefix.slice(0, MAX_PREFIX_LENGTH)}…` : prefix;
+};
+
+// Spend per description prefix, with everything past the top `limit - 1` folded into "Other"
+export const spendByPrefix = (transactions: Transaction[], limit = 8): BreakdownEntry[] => {
+  const spends = transactions.filter((tx) => transactionSign(tx.type) < 0);
+  const entries = sumBy(spends, (tx) => descriptionPrefix(tx.description));
+  if (entries.length <= limit) return entries;
+
+  const rest = entries.slice(limit - 1);
+  return [
+    ...entries.slice(0, limit - 1),
+    {
+      key: "other",
+      label: `Other (${rest.length})`,
+      amount: rest.reduce((sum, entry) => sum + entry.amount, 0),
+      count: rest.reduce((sum, entry) => sum + entry.count, 0),
+    },
+  ];
+};
@@ -0,0 +1,150 @@
+// Per-organization credit limits and the structured error shown when an operation would
+// break them. The same error is built for the client-side pre-check and for the server's
+// rejection, so the user sees one message whichever side caught it.
+
+export type CreditLimits = {
+  // Highest balance the organization's plan allows, or null when it is unlimited/unknown
+  maxBalance: number | null;
+  // Lowest balance a spend may leave behind: 0, or negative when the plan allows an overdraft
+  minBalance: number;
+};
+
+export const DEFAULT_CREDIT_LIMITS: CreditLimits = { maxBalance: null, minBalance: 0 };
+
+export type CreditLimitErrorCode = "CREDIT_LIMIT_EXCEEDED" | "INSUFFICIENT_BALANCE";
+
+export type CreditLimitError = {
+  code: CreditLimitErrorCode;
+  currentBalance: number;
+  requested: number;
+  // The bound that was hit: maxBalance for adds, minBalance for spends (null if unknown)
+  limit: number | null;
+  // How much could still be added/spent (null if unknown)
+  headroom: number | null;
+  source: "client" | "server";
+};
+
+const toNumber = (value: unknown): number | null => {
+  const number = typeof value === "string" ? Number(value) : value;
+  return typeof number === "number" && Number.isFinite(number) ? number : null;
+};
+
+// Read limits from a balance (or plan config) payload. Accepts `credit_limit`,
+// `max_balance` or `max_credit_limit` for the ceiling, and `min_balance` or
+// `overdraft_limit` (a positive amount below zero) for the floor, either at the top
+// level or under `limits`.
+export const parseCreditLimits = (data: unknown): CreditLimits => {
+  if (!data || typeof data !== "object") return DEFAULT_CREDIT_LIMITS;
+  const record = data as Record<string, unknown>;
+  const nested = (record.limits && typeof record.limits === "object" ? record.limits : {}) as Record<string, unknown>;
+  const pick = (...keys: string[]) => {
+    for (const key of keys) {
+      const value = toNumber(record[key] ?? nested[key]);
+      if (value !== null) return value;
+    }
+    return null;
+  };
+
+  const maxBalance = pick("credit_limit", "max_balance", "max_credit_limit", "creditLimit", "maxBalance");
+  const minBalance = pick("min_balance", "minBalance");
+  const overdraft = pick("overdraft_limit", "overdraft", "overdraftLimit");
+
+  return {
+    maxBalance,
+    minBalance: minBalance ?? (overdraft !== null ? -Math.abs(overdraft) : 0),
+  };
+};
+
+export const addHeadroom = (limits: CreditLimits, balance: number) =>
+  limits.maxBalance === null ? null : Math.max(0, limits.maxBalance - balance);
+
+export const spendHeadroom = (limits: CreditLimits, balance: number) => Math.max(0, balance - limits.minBalance);
+
+export const checkAddCredits = (limits: CreditLimits, balance: number, requested: number): CreditLimitError | null => {
+  const headroom = addHeadroom(limits, balance);
+  if (headroom === null || requested <= headroom) return null;
+  return {
+    code: "CREDIT_LIMIT_EXCEEDED",
+    currentBalance: balance,
+    requested,
+    limit: limits.maxBalance,
+    headroom,
+    source: "client",
+  };
+};
+
+export const checkSpendCredits = (limits: CreditLimits, balance: number, requested: number): CreditLimitError | null => {
+  const headroom = spendHeadroom(limits, balance);
+  if (requested <= headroom) return null;
+  return {
+    code: "INSUFFICIENT_BALANCE",
+    currentBalance: balance,
+    requested,
+    limit: limits.minBalance,
+    headroom,
+    source: "client",
+  };
+};
+
+// Error codes the server uses for limit rejections
+const LIMIT_REJECTION_CODES = new Set([
+  "credit_limit_exceeded",
+  "limit_exceeded",
+  "max_balance_exceeded",
+  "insufficient_balance",
+  "insufficient_credits",
+]);
+
+const LIMIT_REJECTION_MESSAGE =
+  /insufficient|not enough credits|credit limit|maximum (allowed )?(limit|balance)|exceeds? (the |your |available )*balance/i;
+
+// Turn a rejected spend/add into a CreditLimitError when it was rejected because of a
+// limit: by error code when the server sends one, otherwise by its message. Which limit was
+// hit follows from the operation: a spend can only run into the balance floor, an add only
+// into the ceiling. Values the server doesn't echo back are filled in from what the client
+// knows.
+export const creditLimitErrorFromServer = (
+  rejection: { code?: string; message?: string; details?: unknown },
+  known: { operation: "add" | "spend"; balance: number; requested: number; limits: CreditLimits }
+): CreditLimitError | null => {
+  const limitRejection =
+    LIMIT_REJECTION_CODES.has(rejection.code?.toLowerCase() ?? "") ||
+    LIMIT_REJECTION_MESSAGE.test(rejection.message ?? "");
+  if (!limitRejection) return null;
+  const code: CreditLimitErrorCode = known.operation === "add" ? "CREDIT_LIMIT_EXCEEDED" : "INSUFFICIENT_BALANCE";
+
+  const details = (rejection.details && typeof rejection.details === "object" ? rejection.details : {}) as Record<
+    string,
+    unknown
+  >;
+  const serverLimits = parseCreditLimits(details);
+  const limits: CreditLimits = {
+    maxBalance: serverLimits.maxBalance ?? known.limits.maxBalance,
+    minBalance: details.min_balance !== undefined || details.overdraft_limit !== undefined
+      ? serverLimits.minBalance
+      : known.limits.minBalance,
+  };
+  const currentBalance = toNumber(details.current_balance ?? details.balance) ?? known.balance;
+  const requested = toNumber(details.requested ?? details.amount) ?? known.requested;
+
+  return {
+    code,
+    currentBalance,
+    requested,
+    limit: code === "CREDIT_LIMIT_EXCEEDED" ? limits.maxBalance : limits.minBalance,
+    headroom: code === "CREDIT_LIMIT_EXCEEDED" ? addHeadroom(limits, currentBalance) : spendHeadroom(limits, currentBalance),
+    source: "server",
+  };
+};
+
+export const describeCreditLimitError = (error: CreditLimitError) => {
+  const amounts = `Current balance: ${error.currentBalance.toLocaleString()}, Requested: ${error.requested.toLocaleString()}`;
+  if (error.code === "CREDIT_LIMIT_EXCEEDED") {
+    const limit = error.limit === null ? "your plan's maximum" : `the maximum allowed limit of ${error.limit.toLocaleString()} credits`;
+    const headroom = error.headroom === null ? "" : ` You can add up to ${error.headroom.toLocaleString()} more.`;
+    return `Cannot add credits. The total balance would exceed ${limit}. ${amounts}.${headroom}`;
+  }
+  const floor = error.limit && error.limit < 0 ? ` (overdraft down to ${error.limit.toLocaleString()})` : "";
+  const headroom = error.headroom === null ? "" : ` You can spend up to ${error.headroom.toLocaleString()}${floor}.`;
+  return `Insufficient balance. You don't have enough credits to complete this transaction. ${amounts}.${headroom}`;
+};
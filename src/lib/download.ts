@@ -0,0 +1,11 @@
+// Save generated text (exports, logs) as a file through a temporary link
+export const downloadFile = (content: string, fileName: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
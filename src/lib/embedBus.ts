@@ -0,0 +1,246 @@
+// Typed postMessage protocol between this app and the parent window that embeds it.
+//
+// Every message is wrapped in an envelope carrying the protocol name, its version and an
+// optional request ID that responses echo back. Parents that predate the protocol send
+// bare `{ type, ...fields }` objects; those are still accepted and treated as version 0.
+
+import type { AuthUser } from "@/contexts/AuthContext";
+import { resolveParentOrigin } from "@/lib/parentOrigin";
+
+export const EMBED_PROTOCOL = "supreme-embed";
+export const EMBED_PROTOCOL_VERSION = 1;
+
+// How long to wait for the parent to answer a token request, and how many times to
+// re-send it (with exponential backoff) before giving up
+export const EMBED_AUTH_TIMEOUT_MS = Number(import.meta.env.VITE_EMBED_AUTH_TIMEOUT) || 15000;
+// An explicit 0 turns retries off; a blank, non-numeric or negative value falls back to 2
+const configuredRetries = Number.parseInt(import.meta.env.VITE_EMBED_AUTH_RETRIES ?? "", 10);
+export const EMBED_AUTH_MAX_RETRIES = configuredRetries >= 0 ? configuredRetries : 2;
+const BACKOFF_BASE_MS = 1000;
+const BACKOFF_MAX_MS = 30000;
+
+// Delay before retry number `attempt` (0-based): 1s, 2s, 4s, ... capped at 30s
+export const backoffDelay = (attempt: number) => Math.min(BACKOFF_BASE_MS * 2 ** attempt, BACKOFF_MAX_MS);
+
+export type EmbedTheme = "light" | "dark" | "system";
+
+// Messages the parent window sends to us
+export type ParentMessagePayloads = {
+  HANDSHAKE_ACK: { version: number };
+  JWT_TOKEN_RESPONSE: { token?: string; refreshToken?: string; user?: AuthUser; error?: string };
+  TOKEN_REFRESHED: { token: string; refreshToken?: string };
+  LOGOUT: Record<string, never>;
+  ORG_CHANGED: { organizationId: number };
+  THEME_CHANGED: { theme: EmbedTheme };
+  NAVIGATE: { path: string };
+};
+
+// Messages we send to the parent window
+export type ChildMessagePayloads = {
+  HANDSHAKE: { version: number };
+  REQUEST_JWT_TOKEN: Record<string, never>;
+  LOW_BALANCE: { organizationId: number; balance: number; threshold: number };
+  LAUNCH_AGENT: { agentId: number; assistantId: string; name: string };
+};
+
+export type ParentMessageType = keyof ParentMessagePayloads;
+export type ChildMessageType = keyof ChildMessagePayloads;
+
+export type ParentMessage<T extends ParentMessageType = ParentMessageType> = {
+  type: T;
+  payload: ParentMessagePayloads[T];
+  requestId?: string;
+  version: number;
+  origin: string;
+};
+
+type EmbedEnvelope = {
+  protocol: typeof EMBED_PROTOCOL;
+  version: number;
+  type: string;
+  requestId?: string;
+  payload?: unknown;
+};
+
+type Handler<T extends ParentMessageType> = (message: ParentMessage<T>) => void;
+
+const PARENT_MESSAGE_TYPES: ParentMessageType[] = [
+  "HANDSHAKE_ACK",
+  "JWT_TOKEN_RESPONSE",
+  "TOKEN_REFRESHED",
+  "LOGOUT",
+  "ORG_CHANGED",
+  "THEME_CHANGED",
+  "NAVIGATE",
+];
+
+const isParentMessageType = (type: unknown): type is ParentMessageType =>
+  typeof type === "string" && (PARENT_MESSAGE_TYPES as string[]).includes(type);
+
+let requestCounter = 0;
+
+const createRequestId = () => {
+  requestCounter = (requestCounter + 1) % Number.MAX_SAFE_INTEGER;
+  return `${Date.now().toString(36)}-${requestCounter}`;
+};
+
+// Turn raw event data into a typed parent message, or null when it is not one of ours
+export const parseParentMessage = (data: unknown, origin: string): ParentMessage | null => {
+  if (!data || typeof data !== "object") return null;
+  const raw = data as Record<string, unknown>;
+  if (!isParentMessageType(raw.type)) return null;
+
+  if (raw.protocol === EMBED_PROTOCOL) {
+    const envelope = raw as unknown as EmbedEnvelope;
+    return {
+      type: raw.type,
+      payload: (envelope.payload ?? {}) as ParentMessagePayloads[ParentMessageType],
+      requestId: envelope.requestId,
+      version: typeof envelope.version === "number" ? envelope.version : 0,
+      origin,
+    };
+  }
+
+  // Legacy parent: the fields sit next to `type` instead of inside a payload
+  const { type, requestId, ...fields } = raw;
+  return {
+    type: type as ParentMessageType,
+    payload: fields as ParentMessagePayloads[ParentMessageType],
+    requestId: typeof requestId === "string" ? requestId : undefined,
+    version: 0,
+    origin,
+  };
+};
+
+export type EmbedBusOptions = {
+  // The (allowlisted) parent origin: the only origin we talk to and accept messages from
+  parentOrigin: string;
+  debug?: boolean;
+};
+
+export type EmbedBus = ReturnType<typeof createEmbedBus>;
+
+export const createEmbedBus = ({ parentOrigin, debug = false }: EmbedBusOptions) => {
+  const handlers = new Map<ParentMessageType, Set<Handler<ParentMessageType>>>();
+  let parentVersion: number | null = null;
+  let receivedCount = 0;
+
+  const handleMessage = (event: MessageEvent) => {
+    if (event.source !== window.parent) return;
+
+    if (event.origin !== parentOrigin) {
+      if (debug) {
+        console.warn("[EmbedBus] Rejected message from unauthorized origin:", event.origin);
+      }
+      return;
+    }
+
+    const message = parseParentMessage(event.data, event.origin);
+    if (!message) return;
+
+    receivedCount += 1;
+    if (debug) {
+      console.log("[EmbedBus] 📨", message.type, message);
+    }
+
+    if (message.type === "HANDSHAKE_ACK") {
+      parentVersion = (message.payload as ParentMessagePayloads["HANDSHAKE_ACK"]).version ?? message.version;
+    }
+
+    handlers.get(message.type)?.forEach((handler) => handler(message));
+  };
+
+  window.addEventListener("message", handleMessage);
+
+  const send = <T extends ChildMessageType>(type: T, payload: ChildMessagePayloads[T], requestId?: string) => {
+    const envelope: EmbedEnvelope = {
+      protocol: EMBED_PROTOCOL,
+      version: EMBED_PROTOCOL_VERSION,
+      type,
+      requestId,
+      payload,
+    };
+    if (debug) {
+      console.log("[EmbedBus] 📤", type, { targetOrigin: parentOrigin, requestId });
+    }
+    // `type` stays at the top level so parents that only know the legacy messages still understand us
+    window.parent.postMessage(envelope, parentOrigin);
+  };
+
+  const on = <T extends ParentMessageType>(type: T, handler: Handler<T>) => {
+    const set = handlers.get(type) ?? new Set();
+    set.add(handler as Handler<ParentMessageType>);
+    handlers.set(type, set);
+    return () => {
+      set.delete(handler as Handler<ParentMessageType>);
+    };
+  };
+
+  // Send a message and resolve with the first matching response. Responses that echo our
+  // request ID are matched exactly; legacy responses without an ID are accepted as well.
+  const request = <T extends ChildMessageType, R extends ParentMessageType>(
+    type: T,
+    payload: ChildMessagePayloads[T],
+    responseType: R,
+    timeoutMs: number
+  ) =>
+    new Promise<ParentMessage<R>>((resolve, reject) => {
+      const requestId = createRequestId();
+
+      const timer = setTimeout(() => {
+        unsubscribe();
+        reject(new Error(`No ${responseType} received from parent within ${timeoutMs}ms`));
+      }, timeoutMs);
+
+      const unsubscribe = on(responseType, (message) => {
+        if (message.requestId && message.requestId !== requestId) return;
+        clearTimeout(timer);
+        unsubscribe();
+        resolve(message);
+      });
+
+      send(type, payload, requestId);
+    });
+
+  // Announce our protocol version. Resolves with the parent's version, or null for
+  // parents that do not acknowledge (legacy parents simply ignore the handshake).
+  const handshake = (timeoutMs: number = 1000) =>
+    request("HANDSHAKE", { version: EMBED_PROTOCOL_VERSION }, "HANDSHAKE_ACK", timeoutMs)
+      .then(() => parentVersion)
+      .catch(() => null);
+
+  const destroy = () => {
+    window.removeEventListener("message", handleMessage);
+    handlers.clear();
+  };
+
+  return {
+    send,
+    on,
+    request,
+    handshake,
+    destroy,
+    parentOrigin,
+    getParentVersion: () => parentVersion,
+    getReceivedCount: () => receivedCount,
+  };
+};
+
+let sharedBus: EmbedBus | null = null;
+
+// The app-wide bus, addressed to the detected parent origin. Returns null (fail closed)
+// when the parent cannot be determined or is not on the VITE_ALLOWED_PARENTS allowlist:
+// we never fall back to posting to "*".
+export const getEmbedBus = (): EmbedBus | null => {
+  if (!sharedBus) {
+    const parent = resolveParentOrigin();
+    if (!parent.origin || !parent.allowed) {
+      return null;
+    }
+    sharedBus = createEmbedBus({
+      parentOrigin: parent.origin,
+      debug: import.meta.env.VITE_DEBUG === "true",
+    });
+  }
+  return sharedBus;
+};
@@ -0,0 +1,178 @@
+// Event log shown in the "Event Logs" card.
+//
+// Entries live in a ring buffer capped at VITE_EVENT_LOG_CAPACITY (the oldest are dropped
+// first) and are mirrored to IndexedDB, so the log survives reloads and logouts until it is
+// cleared explicitly. Without IndexedDB (private windows, old browsers) it is kept in memory
+// only. Entries are keyed by a sequence number that increases across reloads, which is also
+// their order.
+
+export const LOG_LEVELS = ["info", "success", "warning", "error"] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+export type LogEntry = {
+  seq: number;
+  level: LogLevel;
+  message: string;
+  // ISO timestamp
+  timestamp: string;
+};
+
+export const EVENT_LOG_CAPACITY = Math.max(1, Number(import.meta.env.VITE_EVENT_LOG_CAPACITY) || 500);
+
+const DB_NAME = "creditSystem_eventLog";
+const STORE_NAME = "entries";
+
+type Listener = (entries: LogEntry[]) => void;
+
+const listeners = new Set<Listener>();
+const ring: (LogEntry | undefined)[] = new Array(EVENT_LOG_CAPACITY);
+let head = 0;
+let size = 0;
+let snapshot: LogEntry[] = [];
+let lastSeq = 0;
+
+// Oldest first
+const readRing = () => Array.from({ length: size }, (_, i) => ring[(head + i) % EVENT_LOG_CAPACITY] as LogEntry);
+
+const pushToRing = (entry: LogEntry) => {
+  ring[(head + size) % EVENT_LOG_CAPACITY] = entry;
+  if (size < EVENT_LOG_CAPACITY) size += 1;
+  else head = (head + 1) % EVENT_LOG_CAPACITY;
+};
+
+const resetRing = () => {
+  ring.fill(undefined);
+  head = 0;
+  size = 0;
+};
+
+const notify = () => {
+  snapshot = readRing();
+  listeners.forEach((listener) => listener(snapshot));
+};
+
+// Millisecond timestamps scaled up, leaving room for several entries per millisecond
+const nextSeq = () => {
+  lastSeq = Math.max(lastSeq + 1, Date.now() * 1000);
+  return lastSeq;
+};
+
+const requestResult = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise =
+      typeof indexedDB === "undefined"
+        ? Promise.resolve(null)
+        : new Promise<IDBDatabase | null>((resolve) => {
+            const request = indexedDB.open(DB_NAME, 1);
+            request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME, { keyPath: "seq" });
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+              console.warn("Event log: IndexedDB unavailable, keeping the log in memory", request.error);
+              resolve(null);
+            };
+          });
+  }
+  return dbPromise;
+};
+
+const withStore = async (run: (store: IDBObjectStore) => void) => {
+  const db = await openDb();
+  if (!db) return;
+  try {
+    const tx = db.transaction(STORE_NAME, "readwrite");
+    run(tx.objectStore(STORE_NAME));
+  } catch (err) {
+    console.warn("Event log: failed to write to IndexedDB", err);
+  }
+};
+
+// Load the persisted entries once, merged with anything logged before they arrived
+let loadPromise: Promise<void> | null = null;
+// Bumped on every clear, so a load that was reading meanwhile doesn't bring the entries back
+let clearGeneration = 0;
+
+export const loadEventLog = () => {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      const generation = clearGeneration;
+      const db = await openDb();
+      if (!db) return;
+      try {
+        const stored = await requestResult(
+          db.transaction(STORE_NAME, "readonly").objectStore(STORE_NAME).getAll() as IDBRequest<LogEntry[]>
+        );
+        if (generation !== clearGeneration) return;
+        // Entries logged meanwhile may already be among the stored ones
+        const bySeq = new Map([...stored, ...readRing()].map((entry) => [entry.seq, entry]));
+        const merged = [...bySeq.values()].sort((a, b) => a.seq - b.seq).slice(-EVENT_LOG_CAPACITY);
+        resetRing();
+        merged.forEach(pushToRing);
+        lastSeq = Math.max(lastSeq, ...merged.map((entry) => entry.seq));
+        notify();
+        // Drop what the capacity no longer keeps (it may have shrunk since the last session)
+        if (merged.length > 0) withStore((store) => store.delete(IDBKeyRange.upperBound(merged[0].seq, true)));
+      } catch (err) {
+        console.warn("Event log: failed to read from IndexedDB", err);
+      }
+    })();
+  }
+  return loadPromise;
+};
+
+export const appendLog = (level: LogLevel, message: string): LogEntry => {
+  const entry: LogEntry = { seq: nextSeq(), level, message, timestamp: new Date().toISOString() };
+  pushToRing(entry);
+  notify();
+  // Once the buffer is full, its oldest entry bounds what is kept on disk too
+  const oldest = size === EVENT_LOG_CAPACITY ? snapshot[0].seq : null;
+  withStore((store) => {
+    store.put(entry);
+    if (oldest !== null) store.delete(IDBKeyRange.upperBound(oldest, true));
+  });
+  return entry;
+};
+
+export const clearEventLog = () => {
+  clearGeneration += 1;
+  resetRing();
+  notify();
+  withStore((store) => store.clear());
+};
+
+export const getEventLog = () => snapshot;
+
+export const subscribeToEventLog = (listener: Listener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export type LogFilters = { levels: LogLevel[]; query: string };
+
+export const EMPTY_LOG_FILTERS: LogFilters = { levels: [], query: "" };
+
+export const filterLogEntries = (entries: LogEntry[], { levels, query }: LogFilters) => {
+  const needle = query.trim().toLowerCase();
+  return entries.filter(
+    (entry) =>
+      (levels.length === 0 || levels.includes(entry.level)) && (!needle || entry.message.toLowerCase().includes(needle))
+  );
+};
+
+// One JSON object per line, oldest first
+export const toNdjson = (entries: LogEntry[]) =>
+  entries.map(({ timestamp, level, message, seq }) => JSON.stringify({ timestamp, level, message, seq })).join("\n") +
+  (entries.length > 0 ? "\n" : "");
+
+export const eventLogFileName = (now = new Date()) =>
+  `event-log-${now.toISOString().slice(0, 19).replace(/[:T]/g, "-")}.ndjson`;
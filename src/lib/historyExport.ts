@@ -0,0 +1,76 @@
+import type { Transaction } from "@supreme-ai/si-sdk";
+
+// Transaction history statements. Rows from the SDK (embedded) and from the JWT API
+// (standalone) are normalised to the same record first, so both modes export byte-for-byte
+// the same file for the same history.
+
+export type ExportFormat = "csv" | "json";
+
+export const EXPORT_COLUMNS = [
+  "id",
+  "type",
+  "amount",
+  "balance_after",
+  "description",
+  "reference_id",
+  "user_id",
+  "created_at",
+] as const;
+
+export type ExportRow = {
+  id: string;
+  type: string;
+  amount: number;
+  balance_after: number;
+  description: string;
+  reference_id: string | null;
+  user_id: string | null;
+  created_at: string;
+};
+
+const optionalId = (value: unknown) => (value == null || value === "" ? null : String(value));
+
+export const toExportRow = (tx: Transaction & { user_id?: unknown }): ExportRow => {
+  const created = new Date(tx.created_at);
+  return {
+    id: String(tx.id),
+    type: String(tx.type ?? "").toLowerCase(),
+    amount: Number(tx.amount) || 0,
+    balance_after: Number(tx.balance_after) || 0,
+    description: tx.description ?? "",
+    reference_id: optionalId(tx.reference_id),
+    user_id: optionalId(tx.user_id),
+    created_at: Number.isNaN(created.getTime()) ? String(tx.created_at ?? "") : created.toISOString(),
+  };
+};
+
+// Oldest first, like a bank statement; the ID breaks ties between rows from the same instant
+export const sortExportRows = (rows: ExportRow[]) =>
+  [...rows].sort((a, b) => a.created_at.localeCompare(b.created_at) || a.id.localeCompare(b.id, undefined, { numeric: true }));
+
+const escapeCsvCell = (value: string | number | null) => {
+  if (value == null) return "";
+  let text = String(value);
+  // Keep spreadsheet apps from evaluating free text as a formula
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: ExportRow[]) =>
+  [EXPORT_COLUMNS.join(","), ...rows.map((row) => EXPORT_COLUMNS.map((column) => escapeCsvCell(row[column])).join(","))]
+    .join("\r\n")
+    .concat("\r\n");
+
+export const toJson = (rows: ExportRow[]) => `${JSON.stringify(rows, null, 2)}\n`;
+
+export const exportFileName = (format: ExportFormat, orgId: number | undefined, from?: string, to?: string) => {
+  const range = from || to ? `-${from ?? "start"}-to-${to ?? "today"}` : "";
+  return `transactions${orgId ? `-org${orgId}` : ""}${range}.${format}`;
+};
+
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv;charset=utf-8",
+  json: "application/json",
+};
@@ -0,0 +1,124 @@
+import type { Transaction } from "@supreme-ai/si-sdk";
+
+// Transaction history filters. They are sent to `/history` as query params; servers that
+// don't support them return unfiltered rows, so the same filters are also applied locally
+// (see useHistoryQuery).
+
+export const TRANSACTION_TYPES = ["spend", "manual", "bonus", "refund", "cancelled"] as const;
+
+export type TransactionType = (typeof TRANSACTION_TYPES)[number];
+
+export const TRANSACTION_TYPE_LABELS: Record<TransactionType, string> = {
+  spend: "Spend",
+  manual: "Manual",
+  bonus: "Bonus",
+  refund: "Refund",
+  cancelled: "Cancelled",
+};
+
+// Older rows use other names for spends
+export const SPEND_TYPE_ALIASES = ["debit", "deduct", "spend", "spent"];
+
+const TYPE_ALIASES: Partial<Record<TransactionType, string[]>> = {
+  spend: SPEND_TYPE_ALIASES,
+};
+
+export type HistoryFilters = {
+  types: TransactionType[];
+  // Inclusive calendar days, yyyy-MM-dd in local time
+  from?: string;
+  to?: string;
+  minAmount?: number;
+  maxAmount?: number;
+  search: string;
+};
+
+export const EMPTY_HISTORY_FILTERS: HistoryFilters = { types: [], search: "" };
+
+export const countActiveHistoryFilters = (filters: HistoryFilters) =>
+  (filters.types.length > 0 ? 1 : 0) +
+  (filters.from || filters.to ? 1 : 0) +
+  (filters.minAmount != null || filters.maxAmount != null ? 1 : 0) +
+  (filters.search.trim() ? 1 : 0);
+
+export const hasHistoryFilters = (filters: HistoryFilters) => countActiveHistoryFilters(filters) > 0;
+
+export const historyFilterParams = (filters: HistoryFilters) => {
+  const params = new URLSearchParams();
+  if (filters.types.length > 0) params.set("type", filters.types.join(","));
+  if (filters.from) params.set("start_date", filters.from);
+  if (filters.to) params.set("end_date", filters.to);
+  if (filters.minAmount != null) params.set("min_amount", String(filters.minAmount));
+  if (filters.maxAmount != null) params.set("max_amount", String(filters.maxAmount));
+  if (filters.search.trim()) params.set("search", filters.search.trim());
+  return params;
+};
+
+const localDay = (value: string) => {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return null;
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+export const matchesHistoryFilters = (tx: Transaction, filters: HistoryFilters) => {
+  if (filters.types.length > 0) {
+    const type = tx.type?.toLowerCase();
+    const matchesType = filters.types.some((t) => (TYPE_ALIASES[t] ?? [t]).includes(type));
+    if (!matchesType) return false;
+  }
+
+  if (filters.from || filters.to) {
+    const day = localDay(tx.created_at);
+    if (!day) return false;
+    if (filters.from && day < filters.from) return false;
+    if (filters.to && day > filters.to) return false;
+  }
+
+  // Spends may come back signed; amount filters are on the size of the change
+  const amount = Math.abs(Number(tx.amount) || 0);
+  if (filters.minAmount != null && amount < filters.minAmount) return false;
+  if (filters.maxAmount != null && amount > filters.maxAmount) return false;
+
+  const search = filters.search.trim().toLowerCase();
+  if (search) {
+    const haystack = `${tx.description ?? ""} ${tx.reference_id ?? ""}`.toLowerCase();
+    if (!haystack.includes(search)) return false;
+  }
+
+  return true;
+};
+
+// Sorting goes to the server as `sort_by`/`sort_order` too; each page is also sorted locally
+// so the order is right even when the server ignores it (then it only covers the one page)
+export type HistorySortColumn = "created_at" | "type" | "amount" | "balance_after" | "description";
+
+export type HistorySort = { column: HistorySortColumn; direction: "asc" | "desc" };
+
+export const DEFAULT_HISTORY_SORT: HistorySort = { column: "created_at", direction: "desc" };
+
+export const historySortParams = (sort: HistorySort) =>
+  new URLSearchParams({ sort_by: sort.column, sort_order: sort.direction });
+
+const sortValue = (tx: Transaction, column: HistorySortColumn): number | string => {
+  switch (column) {
+    case "created_at":
+      return new Date(tx.created_at).getTime() || 0;
+    case "amount":
+      return Math.abs(Number(tx.amount) || 0);
+    case "balance_after":
+      return Number(tx.balance_after) || 0;
+    default:
+      return String(tx[column] ?? "").toLowerCase();
+  }
+};
+
+export const sortTransactions = <T extends Transaction>(transactions: T[], { column, direction }: HistorySort) => {
+  const factor = direction === "asc" ? 1 : -1;
+  return [...transactions].sort((a, b) => {
+    const left = sortValue(a, column);
+    const right = sortValue(b, column);
+    const order = typeof left === "number" && typeof right === "number" ? left - right : String(left).localeCompare(String(right));
+    return factor * order;
+  });
+};
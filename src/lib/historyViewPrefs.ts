@@ -0,0 +1,37 @@
+// How the user likes to see the transaction history. Unlike the session data this is kept
+// in localStorage, so it survives closing the tab.
+
+const STORAGE_KEY = "creditSystem_historyView";
+
+export type HistoryLayout = "table" | "cards";
+
+export const HISTORY_PAGE_SIZES = [10, 25, 50, 100] as const;
+
+export type HistoryViewPrefs = {
+  layout: HistoryLayout;
+  pageSize: number;
+};
+
+export const DEFAULT_HISTORY_VIEW_PREFS: HistoryViewPrefs = { layout: "table", pageSize: 10 };
+
+export const loadHistoryViewPrefs = (): HistoryViewPrefs => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}") as Partial<HistoryViewPrefs>;
+    return {
+      layout: stored.layout === "cards" || stored.layout === "table" ? stored.layout : DEFAULT_HISTORY_VIEW_PREFS.layout,
+      pageSize: (HISTORY_PAGE_SIZES as readonly number[]).includes(stored.pageSize as number)
+        ? (stored.pageSize as number)
+        : DEFAULT_HISTORY_VIEW_PREFS.pageSize,
+    };
+  } catch {
+    return DEFAULT_HISTORY_VIEW_PREFS;
+  }
+};
+
+export const saveHistoryViewPrefs = (prefs: HistoryViewPrefs) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(prefs));
+  } catch {
+    // Storage full or disabled: the choice just won't be remembered
+  }
+};
@@ -0,0 +1,64 @@
+// Client-generated idempotency keys for credit mutations.
+//
+// A key belongs to one submission, identified by its scope (organization, operation, amount
+// and description). Re-submitting the same thing (a retry after a network error, a double
+// click, or the same form sent again after a page refresh) reuses the key, so the server
+// can recognise the duplicate instead of debiting twice. The key is released once the
+// server has confirmed or definitively rejected the submission. Keys live in sessionStorage
+// so they survive a refresh, and expire after a day so an old failure doesn't block a
+// genuine repeat forever.
+
+const STORAGE_KEY = "creditSystem_idempotencyKeys";
+const KEY_TTL_MS = 24 * 60 * 60 * 1000;
+
+type StoredKeys = Record<string, { key: string; createdAt: number }>;
+
+const readKeys = (): StoredKeys => {
+  try {
+    const stored = JSON.parse(sessionStorage.getItem(STORAGE_KEY) || "{}") as StoredKeys;
+    const now = Date.now();
+    return Object.fromEntries(Object.entries(stored).filter(([, entry]) => now - entry.createdAt < KEY_TTL_MS));
+  } catch {
+    return {};
+  }
+};
+
+const writeKeys = (keys: StoredKeys) => {
+  sessionStorage.setItem(STORAGE_KEY, JSON.stringify(keys));
+};
+
+const generateKey = () =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+
+export const idempotencyScope = (...parts: (string | number | undefined)[]) =>
+  parts.map((part) => String(part ?? "")).join("|");
+
+// The key for this submission: the existing one if it is being retried, otherwise a new one
+export const acquireIdempotencyKey = (scope: string) => {
+  const keys = readKeys();
+  if (!keys[scope]) {
+    keys[scope] = { key: generateKey(), createdAt: Date.now() };
+    writeKeys(keys);
+  }
+  return keys[scope].key;
+};
+
+// Forget the key once the server has accepted or definitively rejected the submission.
+// Submissions that may not have reached the server keep their key so that trying again is
+// recognised as the same request.
+export const releaseIdempotencyKey = (scope: string) => {
+  const keys = readKeys();
+  if (keys[scope]) {
+    delete keys[scope];
+    writeKeys(keys);
+  }
+};
+
+// A 4xx answer (insufficient balance, validation...) is final: retrying the same key could
+// only replay the stored rejection, even after the user has fixed the cause. Network errors
+// (no status), timeouts, rate limiting, 5xx and 409 (the key is still being processed)
+// leave the outcome open, so the key is kept for the retry.
+export const isDefinitiveRejection = (status: number | undefined) =>
+  status !== undefined && status >= 400 && status < 500 && ![408, 409, 429].includes(status);
@@ -0,0 +1,74 @@
+import { authFetch } from "@/lib/tokenManager";
+
+// Per-organization low-balance thresholds. They are kept in localStorage; when
+// VITE_LOW_BALANCE_API_URL points at a settings endpoint they are loaded from and saved to
+// it as well, with the local copy serving as a cache and as the fallback when it fails.
+
+export const DEFAULT_LOW_BALANCE_THRESHOLD = 100;
+
+const STORAGE_KEY = "creditSystem_lowBalanceThresholds";
+
+export const LOW_BALANCE_API_URL: string | undefined = import.meta.env.VITE_LOW_BALANCE_API_URL || undefined;
+
+export const isLowBalance = (balance: number, threshold = DEFAULT_LOW_BALANCE_THRESHOLD) => balance < threshold;
+
+const readStored = (): Record<string, number> => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}");
+  } catch {
+    return {};
+  }
+};
+
+const validThreshold = (value: unknown) =>
+  typeof value === "number" && Number.isFinite(value) && value >= 0 ? value : undefined;
+
+export const getStoredLowBalanceThreshold = (orgId: number) =>
+  validThreshold(readStored()[orgId]) ?? DEFAULT_LOW_BALANCE_THRESHOLD;
+
+const storeThreshold = (orgId: number, threshold: number) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...readStored(), [orgId]: threshold }));
+  } catch {
+    // Storage full or disabled: the threshold only lasts until the page is reloaded
+  }
+};
+
+export const loadLowBalanceThreshold = async (orgId: number): Promise<number> => {
+  if (LOW_BALANCE_API_URL) {
+    try {
+      const response = await authFetch(`${LOW_BALANCE_API_URL}?organization_id=${orgId}`, {
+        headers: { Accept: "application/json" },
+      });
+      if (response.ok) {
+        const body = await response.json();
+        const threshold = validThreshold(Number((body?.data ?? body)?.threshold));
+        if (threshold !== undefined) {
+          storeThreshold(orgId, threshold);
+          return threshold;
+        }
+      }
+    } catch {
+      // Fall back to the local copy
+    }
+  }
+  return getStoredLowBalanceThreshold(orgId);
+};
+
+export const saveLowBalanceThreshold = async (orgId: number, threshold: number): Promise<number> => {
+  if (validThreshold(threshold) === undefined) {
+    throw new Error("The threshold must be zero or more");
+  }
+  storeThreshold(orgId, threshold);
+  if (LOW_BALANCE_API_URL) {
+    const response = await authFetch(LOW_BALANCE_API_URL, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json", Accept: "application/json" },
+      body: JSON.stringify({ organization_id: orgId, threshold }),
+    });
+    if (!response.ok) {
+      throw new Error(`Saved on this device only: the server answered ${response.status}`);
+    }
+  }
+  return threshold;
+};
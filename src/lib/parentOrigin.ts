@@ -0,0 +1,93 @@
+// Allowlist of parent origins that may embed this app, and detection of the actual parent.
+//
+// VITE_ALLOWED_PARENTS is a comma-separated list of origins. An entry may use a leading
+// wildcard label for subdomains, e.g. `https://*.supremegroup.ai` matches
+// `https://app.supremegroup.ai` (but not `https://supremegroup.ai` or another scheme/port).
+
+export type AllowedOriginPattern = {
+  protocol: string;
+  // Exact hostname, or the suffix after "*." for wildcard entries
+  host: string;
+  wildcard: boolean;
+  port: string;
+};
+
+export type ParentOriginSource = "ancestorOrigins" | "referrer";
+
+export type ParentOriginResolution = {
+  // Origin of the embedding window as far as the browser tells us, or null when unknown
+  origin: string | null;
+  source: ParentOriginSource | null;
+  allowed: boolean;
+};
+
+const defaultPort = (protocol: string) => (protocol === "https:" ? "443" : protocol === "http:" ? "80" : "");
+
+const parseEntry = (entry: string): AllowedOriginPattern | null => {
+  const wildcard = entry.includes("://*.");
+  try {
+    const url = new URL(wildcard ? entry.replace("://*.", "://wildcard.") : entry);
+    return {
+      protocol: url.protocol,
+      host: wildcard ? url.hostname.replace(/^wildcard\./, "") : url.hostname,
+      wildcard,
+      port: url.port || defaultPort(url.protocol),
+    };
+  } catch {
+    console.warn(`Ignoring invalid VITE_ALLOWED_PARENTS entry: ${entry}`);
+    return null;
+  }
+};
+
+export const parseAllowedOrigins = (raw: string): AllowedOriginPattern[] =>
+  raw
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map(parseEntry)
+    .filter((pattern): pattern is AllowedOriginPattern => pattern !== null);
+
+export const isOriginAllowed = (origin: string, patterns: AllowedOriginPattern[]) => {
+  let url: URL;
+  try {
+    url = new URL(origin);
+  } catch {
+    return false;
+  }
+  const port = url.port || defaultPort(url.protocol);
+
+  return patterns.some((pattern) => {
+    if (pattern.protocol !== url.protocol || pattern.port !== port) return false;
+    return pattern.wildcard ? url.hostname.endsWith(`.${pattern.host}`) : url.hostname === pattern.host;
+  });
+};
+
+export const getAllowedOriginPatterns = () => parseAllowedOrigins(import.meta.env.VITE_ALLOWED_PARENTS || "");
+
+const toOrigin = (value: string) => {
+  try {
+    const origin = new URL(value).origin;
+    return origin === "null" ? null : origin;
+  } catch {
+    return null;
+  }
+};
+
+// Work out which origin embeds us. `ancestorOrigins` is authoritative where supported
+// (Chromium, Safari); otherwise fall back to the referrer of the framed document.
+export const resolveParentOrigin = (
+  patterns: AllowedOriginPattern[] = getAllowedOriginPatterns()
+): ParentOriginResolution => {
+  const ancestor = window.location.ancestorOrigins?.[0];
+  if (ancestor) {
+    const origin = toOrigin(ancestor);
+    return { origin, source: "ancestorOrigins", allowed: !!origin && isOriginAllowed(origin, patterns) };
+  }
+
+  const referrer = document.referrer ? toOrigin(document.referrer) : null;
+  if (referrer) {
+    return { origin: referrer, source: "referrer", allowed: isOriginAllowed(referrer, patterns) };
+  }
+
+  return { origin: null, source: null, allowed: false };
+};
@@ -0,0 +1,123 @@
+// Search, filter and sort state for the personas list, kept in the URL query string so a
+// filtered view can be shared. Example: `?q=retail&category=B2B&category=SMB&sort=name-asc`
+// (multi-select filters repeat their parameter once per selected value).
+
+import type { Persona } from "@/lib/personasService";
+
+export const PERSONA_FILTER_FIELDS = ["category", "industry", "geo", "size", "job_title"] as const;
+
+export type PersonaFilterField = (typeof PERSONA_FILTER_FIELDS)[number];
+
+export const PERSONA_FILTER_LABELS: Record<PersonaFilterField, string> = {
+  category: "Category",
+  industry: "Industry",
+  geo: "Location",
+  size: "Company Size",
+  job_title: "Job Title",
+};
+
+export const PERSONA_SORT_OPTIONS = {
+  "name-asc": "Name (A-Z)",
+  "name-desc": "Name (Z-A)",
+  "created-desc": "Newest first",
+  "created-asc": "Oldest first",
+  "updated-desc": "Recently updated",
+} as const;
+
+export type PersonaSort = keyof typeof PERSONA_SORT_OPTIONS;
+
+export const DEFAULT_PERSONA_SORT: PersonaSort = "name-asc";
+
+export type PersonaFilters = {
+  query: string;
+  sort: PersonaSort;
+  values: Record<PersonaFilterField, string[]>;
+};
+
+const isPersonaSort = (value: string | null): value is PersonaSort =>
+  !!value && Object.prototype.hasOwnProperty.call(PERSONA_SORT_OPTIONS, value);
+
+export const parsePersonaFilters = (params: URLSearchParams): PersonaFilters => {
+  const sort = params.get("sort");
+  const values = {} as Record<PersonaFilterField, string[]>;
+  PERSONA_FILTER_FIELDS.forEach((field) => {
+    values[field] = params.getAll(field).filter(Boolean);
+  });
+  return {
+    query: params.get("q") ?? "",
+    sort: isPersonaSort(sort) ? sort : DEFAULT_PERSONA_SORT,
+    values,
+  };
+};
+
+// Write the filters into `params`, leaving unrelated parameters untouched
+export const applyPersonaFilters = (params: URLSearchParams, filters: PersonaFilters) => {
+  const next = new URLSearchParams(params);
+  next.delete("q");
+  next.delete("sort");
+  PERSONA_FILTER_FIELDS.forEach((field) => next.delete(field));
+
+  if (filters.query.trim()) next.set("q", filters.query);
+  if (filters.sort !== DEFAULT_PERSONA_SORT) next.set("sort", filters.sort);
+  PERSONA_FILTER_FIELDS.forEach((field) => {
+    filters.values[field].forEach((value) => next.append(field, value));
+  });
+  return next;
+};
+
+export const countActiveFilters = (filters: PersonaFilters) =>
+  PERSONA_FILTER_FIELDS.reduce((count, field) => count + filters.values[field].length, 0) +
+  (filters.query.trim() ? 1 : 0);
+
+const fieldValue = (persona: Persona, field: PersonaFilterField) => {
+  const value = persona[field];
+  return value == null || value === "" ? null : String(value);
+};
+
+// Distinct values present in the loaded personas, for the filter menus
+export const derivePersonaFilterOptions = (personas: Persona[]) => {
+  const options = {} as Record<PersonaFilterField, string[]>;
+  PERSONA_FILTER_FIELDS.forEach((field) => {
+    const distinct = new Set<string>();
+    personas.forEach((persona) => {
+      const value = fieldValue(persona, field);
+      if (value) distinct.add(value);
+    });
+    options[field] = [...distinct].sort((a, b) => a.localeCompare(b));
+  });
+  return options;
+};
+
+const timestamp = (value?: string) => {
+  const time = value ? Date.parse(value) : NaN;
+  return Number.isNaN(time) ? 0 : time;
+};
+
+const comparators: Record<PersonaSort, (a: Persona, b: Persona) => number> = {
+  "name-asc": (a, b) => a.name.localeCompare(b.name),
+  "name-desc": (a, b) => b.name.localeCompare(a.name),
+  "created-desc": (a, b) => timestamp(b.created_at) - timestamp(a.created_at),
+  "created-asc": (a, b) => timestamp(a.created_at) - timestamp(b.created_at),
+  "updated-desc": (a, b) => timestamp(b.updated_at) - timestamp(a.updated_at),
+};
+
+export const filterAndSortPersonas = (personas: Persona[], filters: PersonaFilters): Persona[] => {
+  const terms = filters.query.toLowerCase().split(/\s+/).filter(Boolean);
+
+  return personas
+    .filter((persona) => {
+      const matchesFilters = PERSONA_FILTER_FIELDS.every((field) => {
+        const selected = filters.values[field];
+        return selected.length === 0 || selected.includes(fieldValue(persona, field) ?? "");
+      });
+      if (!matchesFilters) return false;
+      if (terms.length === 0) return true;
+
+      const haystack = [persona.name, persona.short_description, persona.long_description]
+        .filter(Boolean)
+        .join(" ")
+        .toLowerCase();
+      return terms.every((term) => haystack.includes(term));
+    })
+    .sort(comparators[filters.sort]);
+};
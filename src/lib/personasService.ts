@@ -0,0 +1,170 @@
+// Typed client for the personas API.
+//
+// Every response is validated against a zod schema before it reaches the UI, so when the
+// API shape drifts the caller gets a PersonasApiError naming the endpoint and the offending
+// fields instead of `undefined` surfacing somewhere in a component.
+
+import { z } from "zod";
+import { authFetch } from "@/lib/tokenManager";
+
+export const PERSONAS_API_URL = import.meta.env.VITE_PERSONAS_API_URL || "http://127.0.0.1:8000/api";
+
+// The API sends null for empty optional fields; normalise those to undefined
+const optionalString = z
+  .string()
+  .nullish()
+  .transform((value) => value ?? undefined);
+
+export type Persona = {
+  id: number;
+  name: string;
+  short_description?: string;
+  long_description?: string;
+  category?: string;
+  geo?: string;
+  size?: string;
+  industry?: string;
+  job_title?: string;
+  value?: string;
+  created_at?: string;
+  updated_at?: string;
+};
+
+// Cast rather than inferred: with strictNullChecks off, z.infer makes every field optional
+export const personaSchema = z.object({
+  id: z.number().int(),
+  name: z.string(),
+  short_description: optionalString,
+  long_description: optionalString,
+  category: optionalString,
+  geo: optionalString,
+  size: optionalString,
+  industry: optionalString,
+  job_title: optionalString,
+  value: optionalString,
+  created_at: optionalString,
+  updated_at: optionalString,
+}) as z.ZodType<Persona, z.ZodTypeDef, unknown>;
+
+// Editable persona fields. In an update, null clears an optional field.
+export type PersonaInput = {
+  name: string;
+  short_description?: string | null;
+  long_description?: string | null;
+  category?: string | null;
+  geo?: string | null;
+  size?: string | null;
+  industry?: string | null;
+  job_title?: string | null;
+  value?: string | null;
+};
+
+// The persona as the API will store it once `input` is applied
+export const applyPersonaInput = (persona: Persona, input: PersonaInput): Persona => ({
+  ...persona,
+  ...Object.fromEntries(Object.entries(input).map(([key, value]) => [key, value ?? undefined])),
+});
+
+export type PersonasApiErrorKind = "network" | "http" | "schema";
+
+export class PersonasApiError extends Error {
+  constructor(
+    message: string,
+    readonly kind: PersonasApiErrorKind,
+    readonly status?: number
+  ) {
+    super(message);
+    this.name = "PersonasApiError";
+  }
+}
+
+export const isPersonaNotFound = (error: unknown) => error instanceof PersonasApiError && error.status === 404;
+
+type Envelope = { success?: boolean; message?: string; error?: string; data?: unknown; [key: string]: unknown };
+
+const describeIssues = (error: z.ZodError) =>
+  error.issues
+    .slice(0, 3)
+    .map((issue) => `${issue.path.length ? issue.path.join(".") : "(root)"}: ${issue.message}`)
+    .join("; ");
+
+const request = async (method: string, path: string, body?: unknown): Promise<unknown> => {
+  const label = `${method} ${path}`;
+  let response: Response;
+  try {
+    response = await authFetch(`${PERSONAS_API_URL}${path}`, {
+      method,
+      headers: {
+        "Content-Type": "application/json",
+        "Accept": "application/json",
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+  } catch (err) {
+    throw new PersonasApiError(
+      `${label} failed: ${err instanceof Error ? err.message : "network error"}`,
+      "network"
+    );
+  }
+
+  if (response.status === 204) return null;
+
+  let data: unknown = null;
+  try {
+    data = await response.json();
+  } catch {
+    if (response.ok) {
+      throw new PersonasApiError(`${label} returned a response that is not JSON`, "schema", response.status);
+    }
+  }
+
+  const envelope = (data && typeof data === "object" ? data : {}) as Envelope;
+  if (!response.ok || envelope.success === false) {
+    const reason = envelope.message || envelope.error || `status ${response.status}`;
+    throw new PersonasApiError(`${label} failed: ${reason}`, "http", response.status);
+  }
+  return data;
+};
+
+// Responses come either bare or wrapped as { data }, { <key> } or { data: { <key> } }
+const unwrap = (data: unknown, key: string): unknown => {
+  if (!data || typeof data !== "object" || Array.isArray(data)) return data;
+  const envelope = data as Envelope;
+  if (key in envelope) return envelope[key];
+  if (envelope.data && typeof envelope.data === "object" && !Array.isArray(envelope.data) && key in envelope.data) {
+    return (envelope.data as Record<string, unknown>)[key];
+  }
+  return "data" in envelope ? envelope.data : data;
+};
+
+const parse = <T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, data: unknown, label: string): T => {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    throw new PersonasApiError(`Unexpected response from ${label}: ${describeIssues(result.error)}`, "schema");
+  }
+  return result.data;
+};
+
+export const listPersonas = async (): Promise<Persona[]> => {
+  const data = await request("GET", "/personas");
+  return parse(z.array(personaSchema), unwrap(data, "personas"), "GET /personas");
+};
+
+export const getPersona = async (id: number): Promise<Persona> => {
+  const data = await request("GET", `/personas/${id}`);
+  return parse(personaSchema, unwrap(data, "persona"), `GET /personas/${id}`);
+};
+
+export const createPersona = async (input: PersonaInput): Promise<Persona> => {
+  const data = await request("POST", "/personas", input);
+  return parse(personaSchema, unwrap(data, "persona"), "POST /personas");
+};
+
+export const updatePersona = async (id: number, input: Partial<PersonaInput>): Promise<Persona> => {
+  const data = await request("PUT", `/personas/${id}`, input);
+  return parse(personaSchema, unwrap(data, "persona"), `PUT /personas/${id}`);
+};
+
+export const deletePersona = async (id: number): Promise<void> => {
+  await request("DELETE", `/personas/${id}`);
+};
@@ -0,0 +1,21 @@
+import type { HistoryFilters, HistorySort } from "@/lib/historyFilters";
+
+// TanStack Query cache keys. Everything organization-scoped carries the organization ID,
+// so switching organizations never shows another organization's cached data, and
+// invalidating a prefix (e.g. `queryKeys.history(orgId)`) covers every page below it.
+
+type OrgId = number | null | undefined;
+
+export const queryKeys = {
+  personas: (orgId: OrgId) => ["personas", orgId ?? null] as const,
+  persona: (orgId: OrgId, id: number) => ["personas", orgId ?? null, "detail", id] as const,
+  balance: (orgId: OrgId) => ["credits", orgId ?? null, "balance"] as const,
+  history: (orgId: OrgId) => ["credits", orgId ?? null, "history"] as const,
+  historyPage: (orgId: OrgId, page: number, limit: number, filters: HistoryFilters, sort: HistorySort) =>
+    ["credits", orgId ?? null, "history", { page, limit, filters, sort }] as const,
+  latestTransaction: (orgId: OrgId) => ["credits", orgId ?? null, "history", "latest"] as const,
+  // Every transaction of the last `days` days, for the analytics charts
+  historyRange: (orgId: OrgId, days: number) => ["credits", orgId ?? null, "history", { days }] as const,
+  agents: (orgId: OrgId) => ["agents", orgId ?? null] as const,
+  lowBalanceThreshold: (orgId: OrgId) => ["settings", orgId ?? null, "lowBalanceThreshold"] as const,
+};
@@ -0,0 +1,174 @@
+// Shared JWT access-token manager.
+// Keeps the access/refresh tokens in sessionStorage (same keys as the credit system SDK),
+// refreshes them against `${AUTH_URL}/refresh` shortly before expiry, and retries
+// requests that come back with a 401 once a fresh token is available.
+
+export const ACCESS_TOKEN_KEY = "creditSystem_accessToken";
+export const REFRESH_TOKEN_KEY = "creditSystem_refreshToken";
+export const USER_KEY = "creditSystem_user";
+
+// Signs in and refreshes against the same host, so a token is always refreshed where it was issued
+export const AUTH_URL = import.meta.env.VITE_AUTH_URL || "https://v2.supremegroup.ai/api/jwt";
+
+// Refresh this long before the token actually expires
+const REFRESH_LEEWAY_MS = 60 * 1000;
+
+type TokenListener = (accessToken: string | null) => void;
+
+const listeners = new Set<TokenListener>();
+let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+let refreshPromise: Promise<string | null> | null = null;
+
+const notify = (accessToken: string | null) => {
+  listeners.forEach((listener) => listener(accessToken));
+};
+
+// Decode the `exp` claim of a JWT and return it as a millisecond timestamp
+export const decodeJwtExpiry = (token: string): number | null => {
+  try {
+    const payload = token.split(".")[1];
+    if (!payload) return null;
+    const base64 = payload.replace(/-/g, "+").replace(/_/g, "/");
+    const padded = base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), "=");
+    const claims = JSON.parse(atob(padded));
+    return typeof claims.exp === "number" ? claims.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+};
+
+export const isTokenExpiring = (token: string, leewayMs: number = REFRESH_LEEWAY_MS) => {
+  const expiry = decodeJwtExpiry(token);
+  // Tokens without an exp claim are treated as long-lived
+  if (expiry === null) return false;
+  return expiry - leewayMs <= Date.now();
+};
+
+export const getAccessToken = () => sessionStorage.getItem(ACCESS_TOKEN_KEY);
+
+export const getRefreshToken = () => sessionStorage.getItem(REFRESH_TOKEN_KEY);
+
+const scheduleRefresh = () => {
+  if (refreshTimer) {
+    clearTimeout(refreshTimer);
+    refreshTimer = null;
+  }
+
+  const accessToken = getAccessToken();
+  if (!accessToken || !getRefreshToken()) return;
+
+  const expiry = decodeJwtExpiry(accessToken);
+  if (expiry === null) return;
+
+  const delay = Math.max(expiry - REFRESH_LEEWAY_MS - Date.now(), 0);
+  refreshTimer = setTimeout(() => {
+    refreshTimer = null;
+    refreshAccessToken();
+  }, delay);
+};
+
+export const setTokens = (accessToken: string, refreshToken?: string | null) => {
+  sessionStorage.setItem(ACCESS_TOKEN_KEY, accessToken);
+  if (refreshToken) {
+    sessionStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+  }
+  scheduleRefresh();
+  notify(accessToken);
+};
+
+export const clearTokens = () => {
+  if (refreshTimer) {
+    clearTimeout(refreshTimer);
+    refreshTimer = null;
+  }
+  sessionStorage.removeItem(ACCESS_TOKEN_KEY);
+  sessionStorage.removeItem(REFRESH_TOKEN_KEY);
+  notify(null);
+};
+
+// Subscribe to access-token changes (refreshes, logins and expired sessions)
+export const subscribeToTokens = (listener: TokenListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Refresh the access token. Concurrent callers share a single in-flight request,
+// so a burst of 401s only ever triggers one call to /refresh.
+export const refreshAccessToken = (): Promise<string | null> => {
+  if (refreshPromise) return refreshPromise;
+
+  const refreshToken = getRefreshToken();
+  if (!refreshToken) return Promise.resolve(null);
+
+  refreshPromise = (async () => {
+    try {
+      const response = await fetch(`${AUTH_URL}/refresh`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Accept": "application/json",
+        },
+        body: JSON.stringify({ refresh_token: refreshToken }),
+      });
+      const data = await response.json();
+
+      // Accept both { data: { tokens: {...} } } (login shape) and { data: { access_token } }
+      const tokens = data?.data?.tokens ?? data?.data ?? {};
+      if (response.ok && data?.success !== false && tokens.access_token) {
+        setTokens(tokens.access_token, tokens.refresh_token ?? refreshToken);
+        return tokens.access_token as string;
+      }
+
+      clearTokens();
+      return null;
+    } catch (err) {
+      console.error("Failed to refresh access token:", err);
+      return null;
+    } finally {
+      refreshPromise = null;
+    }
+  })();
+
+  return refreshPromise;
+};
+
+// Return an access token that is not about to expire, refreshing it first if needed
+export const getValidAccessToken = async (): Promise<string | null> => {
+  const accessToken = getAccessToken();
+  if (!accessToken) return null;
+  if (isTokenExpiring(accessToken) && getRefreshToken()) {
+    return (await refreshAccessToken()) ?? null;
+  }
+  return accessToken;
+};
+
+// fetch() with the bearer token attached. A 401 waits for the (shared) token refresh
+// and retries the request once with the new token.
+export const authFetch = async (input: string, init: RequestInit = {}): Promise<Response> => {
+  const send = (accessToken: string | null) =>
+    fetch(input, {
+      ...init,
+      headers: {
+        ...(accessToken ? { "Authorization": `Bearer ${accessToken}` } : {}),
+        ...init.headers,
+      },
+    });
+
+  const response = await send(await getValidAccessToken());
+  if (response.status !== 401 || !getRefreshToken()) {
+    return response;
+  }
+
+  const refreshed = await refreshAccessToken();
+  if (!refreshed) {
+    return response;
+  }
+  return send(refreshed);
+};
+
+// Pick up a token left over from a previous page load
+if (typeof window !== "undefined") {
+  scheduleRefresh();
+}
@@ -5,164 +5,178 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
 import { Shield, Mail, Lock, Loader2 } from "lucide-react";
-import { useNavigate, Link } from "react-router-dom";
+import { useNavigate, useSearchParams, Link } from "react-router-dom";
+import { useAuth } from "@/contexts/AuthContext";
+import { backoffDelay, EMBED_AUTH_MAX_RETRIES, EMBED_AUTH_TIMEOUT_MS, getEmbedBus } from "@/lib/embedBus";
+import { EmbeddedAuthFailure } from "@/components/EmbeddedAuthFailure";
+import type { EmbeddedAuthDiagnostics, EmbeddedAuthFailureReason } from "@/components/EmbeddedAuthFailure";
+import { resolveParentOrigin } from "@/lib/parentOrigin";
+
+const DEFAULT_RETURN_TO = "/dashboard";
+
+// Only follow same-app paths; anything else (absolute or protocol-relative URLs) falls back to the dashboard
+const sanitizeReturnTo = (value: string | null) => {
+  if (!value || !value.startsWith("/") || value.startsWith("//")) {
+    return DEFAULT_RETURN_TO;
+  }
+  return value;
+};
 
 const Auth = () => {
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [loading, setLoading] = useState(false);
-  const [mode, setMode] = useState<"standalone" | "embedded">("standalone");
+  // Embedded mode: failure screen state, diagnostics, and a counter bumped by the Retry button
+  const [embedFailure, setEmbedFailure] = useState<{ reason: EmbeddedAuthFailureReason; error?: string } | null>(null);
+  const [diagnostics, setDiagnostics] = useState<EmbeddedAuthDiagnostics>({
+    parentOrigin: null,
+    parentAllowed: false,
+    messagesReceived: 0,
+    attempts: 0,
+    timeoutMs: EMBED_AUTH_TIMEOUT_MS,
+    parentProtocolVersion: null,
+  });
+  const [retryRun, setRetryRun] = useState(0);
+  const { mode, establishSession, login } = useAuth();
   const { toast } = useToast();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const returnTo = sanitizeReturnTo(searchParams.get("returnTo"));
 
   // Debug mode flag
   const DEBUG = false;
 
   // Detect embedded mode and handle auto-login
   useEffect(() => {
-    const isInIframe = window.self !== window.top;
-
     if (DEBUG) {
       console.log('[Auth DEBUG] Starting Auth component');
-      console.log('[Auth DEBUG] Is in iframe:', isInIframe);
+      console.log('[Auth DEBUG] Mode:', mode);
     }
 
-    if (isInIframe) {
-      setMode("embedded");
+    if (mode === "embedded") {
       setLoading(true);
 
       if (DEBUG) {
         console.log('[Auth DEBUG] Entering embedded mode');
       }
 
-      const allowedOrigins = (import.meta.env.VITE_ALLOWED_PARENTS || "")
-        .split(",")
-        .map((domain) => domain.trim())
-        .filter(Boolean);
-
-      if (DEBUG) {
-        console.log('[Auth DEBUG] Allowed origins:', allowedOrigins);
-      }
+      const bus = getEmbedBus();
 
-      const handleMessage = (event: MessageEvent) => {
+      // Fail closed: without a verified parent origin we never ask anyone for a token
+      if (!bus) {
+        const parent = resolveParentOrigin();
         if (DEBUG) {
-          console.log('[Auth DEBUG] 📨 Received message:', event.data);
-          console.log('[Auth DEBUG] 📍 Message origin:', event.origin);
+          console.warn('[Auth DEBUG] ❌ No allowed parent origin found:', parent);
         }
+        setDiagnostics((prev) => ({ ...prev, parentOrigin: parent.origin, parentAllowed: false }));
+        setEmbedFailure({ reason: "parent-not-allowed" });
+        setLoading(false);
+        return;
+      }
 
-        // Validate origin
-        if (!allowedOrigins.includes(event.origin)) {
-          if (DEBUG) {
-            console.warn('[Auth DEBUG] ❌ Rejected message from unauthorized origin:', event.origin);
-            console.log('[Auth DEBUG] Allowed origins:', allowedOrigins);
-          }
-          return;
+      setEmbedFailure(null);
+      setDiagnostics((prev) => ({ ...prev, parentOrigin: bus.parentOrigin, parentAllowed: true, attempts: 0 }));
+      let cancelled = false;
+      let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+      const updateCounters = (attempts?: number) => {
+        setDiagnostics((prev) => ({
+          ...prev,
+          attempts: attempts ?? prev.attempts,
+          messagesReceived: bus.getReceivedCount(),
+          parentProtocolVersion: bus.getParentVersion(),
+        }));
+      };
+
+      // Announce our protocol version; legacy parents ignore this and just answer the token request
+      bus.handshake().then((parentVersion) => {
+        if (DEBUG) {
+          console.log('[Auth DEBUG] 🤝 Parent protocol version:', parentVersion ?? 'legacy');
         }
+        if (!cancelled) updateCounters();
+      });
 
+      // Request JWT from parent (same message as credit system). Unanswered requests are
+      // re-sent with exponential backoff before the failure screen is shown.
+      const requestToken = (attempt: number) => {
         if (DEBUG) {
-          console.log('[Auth DEBUG] ✅ Origin verified');
+          console.log(`[Auth DEBUG] 📤 Sending REQUEST_JWT_TOKEN to parent (attempt ${attempt + 1})`);
         }
+        updateCounters(attempt + 1);
 
-        // Handle JWT token from parent (same format as credit system)
-        if (event.data.type === 'JWT_TOKEN_RESPONSE') {
-          if (DEBUG) {
-            console.log('[Auth DEBUG] 🔑 Received JWT_TOKEN_RESPONSE');
-            console.log('[Auth DEBUG] Token present:', !!event.data.token);
-            console.log('[Auth DEBUG] User present:', !!event.data.user);
-            console.log('[Auth DEBUG] Response data:', {
-              hasToken: !!event.data.token,
-              hasRefreshToken: !!event.data.refreshToken,
-              hasUser: !!event.data.user,
-              user: event.data.user
-            });
-          }
-
-          if (event.data.token && event.data.user) {
-            const { token, refreshToken, user } = event.data;
+        bus
+          .request("REQUEST_JWT_TOKEN", {}, "JWT_TOKEN_RESPONSE", EMBED_AUTH_TIMEOUT_MS)
+          .then(({ payload }) => {
+            if (cancelled) return;
+            updateCounters();
 
             if (DEBUG) {
-              console.log('[Auth DEBUG] 💾 Storing tokens in sessionStorage');
-              console.log('[Auth DEBUG] User:', user);
+              console.log('[Auth DEBUG] 🔑 Received JWT_TOKEN_RESPONSE', {
+                hasToken: !!payload.token,
+                hasRefreshToken: !!payload.refreshToken,
+                hasUser: !!payload.user,
+              });
             }
 
-            // Store tokens (using same keys as credit system)
-            sessionStorage.setItem('creditSystem_accessToken', token);
-            if (refreshToken) {
-              sessionStorage.setItem('creditSystem_refreshToken', refreshToken);
+            if (payload.token && payload.user) {
+              const { token, refreshToken, user } = payload;
+
+              // Store tokens (using same keys as credit system)
+              establishSession({ accessToken: token, refreshToken, user });
+
+              if (DEBUG) {
+                console.log('[Auth DEBUG] ✅ Session established');
+                console.log('[Auth DEBUG] 🔄 Redirecting to', returnTo);
+              }
+
+              toast({
+                title: "Auto-login successful",
+                description: `Welcome, ${user.email}!`,
+              });
+
+              // Send the user back to where they were headed
+              navigate(returnTo, { replace: true });
+            } else {
+              if (DEBUG) {
+                console.warn('[Auth DEBUG] ⚠️ JWT_TOKEN_RESPONSE missing token or user');
+              }
+              setEmbedFailure({ reason: "rejected", error: payload.error || "No token received from parent" });
+              setLoading(false);
             }
-            sessionStorage.setItem('creditSystem_user', JSON.stringify(user));
-
-            if (DEBUG) {
-              console.log('[Auth DEBUG] ✅ Tokens stored successfully');
-              console.log('[Auth DEBUG] 🔄 Redirecting to /dashboard');
+          })
+          .catch(() => {
+            if (cancelled) return;
+            updateCounters();
+
+            if (attempt < EMBED_AUTH_MAX_RETRIES) {
+              const delay = backoffDelay(attempt);
+              if (DEBUG) {
+                console.warn(`[Auth DEBUG] ⏱️ No response from parent, retrying in ${delay}ms`);
+              }
+              retryTimer = setTimeout(() => requestToken(attempt + 1), delay);
+              return;
             }
 
-            toast({
-              title: "Auto-login successful",
-              description: `Welcome, ${user.email}!`,
-            });
-
-            // Redirect to dashboard
-            navigate("/dashboard");
-          } else {
             if (DEBUG) {
-              console.warn('[Auth DEBUG] ⚠️ JWT_TOKEN_RESPONSE missing token or user');
-              console.log('[Auth DEBUG] Event data:', event.data);
+              console.warn('[Auth DEBUG] ⏱️ Timeout: No response from parent, giving up');
             }
+            setEmbedFailure({ reason: "timeout" });
             setLoading(false);
-            toast({
-              title: "Authentication failed",
-              description: event.data.error || "No token received from parent",
-              variant: "destructive",
-            });
-          }
-        } else {
-          if (DEBUG) {
-            console.log('[Auth DEBUG] ℹ️ Message type:', event.data.type);
-          }
-        }
+          });
       };
 
-      if (DEBUG) {
-        console.log('[Auth DEBUG] 🎧 Adding message event listener');
-      }
-
-      window.addEventListener('message', handleMessage);
-
-      // Request JWT from parent (same message as credit system)
-      if (DEBUG) {
-        console.log('[Auth DEBUG] 📤 Sending REQUEST_JWT_TOKEN to parent');
-        console.log('[Auth DEBUG] Target:', '*');
-      }
-
-      window.parent.postMessage({ type: 'REQUEST_JWT_TOKEN' }, '*');
-
-      // Timeout after 15 seconds
-      const timeout = setTimeout(() => {
-        if (DEBUG) {
-          console.warn('[Auth DEBUG] ⏱️ Timeout: No response from parent after 15 seconds');
-        }
-        setLoading(false);
-        toast({
-          title: "Authentication timeout",
-          description: "Failed to receive authentication from parent",
-          variant: "destructive",
-        });
-      }, 15000);
+      requestToken(0);
 
       return () => {
-        if (DEBUG) {
-          console.log('[Auth DEBUG] 🧹 Cleanup: Removing message listener and timeout');
-        }
-        window.removeEventListener('message', handleMessage);
-        clearTimeout(timeout);
+        cancelled = true;
+        clearTimeout(retryTimer);
       };
     } else {
       if (DEBUG) {
         console.log('[Auth DEBUG] Running in standalone mode');
       }
     }
-  }, [navigate, toast, DEBUG]);
+  }, [mode, retryRun, establishSession, navigate, returnTo, toast, DEBUG]);
 
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -186,62 +200,40 @@ const Auth = () => {
     try {
       setLoading(true);
 
-      const authUrl = import.meta.env.VITE_AUTH_URL || "https://v2.supremegroup.ai/api/jwt";
-
       if (DEBUG) {
-        console.log('[Auth DEBUG] 📤 Sending login request to:', `${authUrl}/login`);
+        console.log('[Auth DEBUG] 📤 Sending login request');
       }
 
-      const response = await fetch(`${authUrl}/login`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Accept': 'application/json',
-        },
-        body: JSON.stringify({ email, password })
-      });
-
-      const data = await response.json();
+      const result = await login(email, password);
 
       if (DEBUG) {
         console.log('[Auth DEBUG] 📥 Login response:', {
-          ok: response.ok,
-          status: response.status,
-          success: data.success,
-          hasData: !!data.data
+          success: result.success,
+          hasUser: !!result.user
         });
       }
 
-      if (response.ok && data.success && data.data) {
+      if (result.success && result.user) {
         if (DEBUG) {
           console.log('[Auth DEBUG] ✅ Login successful');
-          console.log('[Auth DEBUG] 💾 Storing tokens');
-          console.log('[Auth DEBUG] User:', data.data.user);
-        }
-
-        // Store JWT tokens and user data
-        sessionStorage.setItem('creditSystem_accessToken', data.data.tokens.access_token);
-        sessionStorage.setItem('creditSystem_refreshToken', data.data.tokens.refresh_token);
-        sessionStorage.setItem('creditSystem_user', JSON.stringify(data.data.user));
-
-        if (DEBUG) {
-          console.log('[Auth DEBUG] 🔄 Redirecting to /dashboard');
+          console.log('[Auth DEBUG] User:', result.user);
+          console.log('[Auth DEBUG] 🔄 Redirecting to', returnTo);
         }
 
         toast({
           title: "Login successful",
-          description: `Welcome back, ${data.data.user.email}!`,
+          description: `Welcome back, ${result.user.email}!`,
         });
 
-        // Redirect to dashboard
-        navigate("/dashboard");
+        // Send the user back to where they were headed
+        navigate(returnTo, { replace: true });
       } else {
         if (DEBUG) {
-          console.warn('[Auth DEBUG] ❌ Login failed:', data.message);
+          console.warn('[Auth DEBUG] ❌ Login failed:', result.error);
         }
         toast({
           title: "Login failed",
-          description: data.message || "Invalid credentials",
+          description: result.error || "Invalid credentials",
           variant: "destructive",
         });
       }
@@ -259,6 +251,21 @@ const Auth = () => {
     }
   };
 
+  // Embedded auth failed (unverified parent, no answer, or refused): never fall back to the standalone form
+  if (mode === "embedded" && embedFailure) {
+    return (
+      <EmbeddedAuthFailure
+        reason={embedFailure.reason}
+        error={embedFailure.error}
+        diagnostics={diagnostics}
+        onRetry={() => {
+          setLoading(true);
+          setRetryRun((run) => run + 1);
+        }}
+      />
+    );
+  }
+
   // Show loading state in embedded mode
   if (mode === "embedded" && loading) {
     return (
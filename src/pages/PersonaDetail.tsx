@@ -0,0 +1,248 @@
+import { useMemo } from "react";
+import { Link, useParams, useSearchParams } from "react-router-dom";
+import { format } from "date-fns";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { Skeleton } from "@/components/ui/skeleton";
+import { AlertTriangle, ArrowLeft, ChevronLeft, ChevronRight, RefreshCw, User, UserX } from "lucide-react";
+import { isPersonaNotFound, type Persona } from "@/lib/personasService";
+import { usePersonaQuery, usePersonasQuery } from "@/hooks/use-personas";
+import { filterAndSortPersonas, parsePersonaFilters } from "@/lib/personaFilters";
+
+type LoadState = "loading" | "ready" | "not-found" | "error";
+
+const EMPTY_PERSONAS: Persona[] = [];
+
+const ATTRIBUTES: { key: keyof Persona; label: string }[] = [
+  { key: "category", label: "Category" },
+  { key: "job_title", label: "Job Title" },
+  { key: "industry", label: "Industry" },
+  { key: "geo", label: "Location" },
+  { key: "size", label: "Company Size" },
+  { key: "value", label: "Value" },
+];
+
+const formatTimestamp = (value?: string) => {
+  const date = value ? new Date(value) : null;
+  return date && !Number.isNaN(date.getTime()) ? format(date, "PPP 'at' p") : "—";
+};
+
+// Render plain text with paragraphs (blank lines) and "-" / "*" bullet lists
+const FormattedText = ({ text }: { text: string }) => {
+  const blocks = text.trim().split(/\n\s*\n/);
+  return (
+    <div className="space-y-3 text-sm leading-relaxed">
+      {blocks.map((block, i) => {
+        const lines = block.split("\n");
+        if (lines.every((line) => /^\s*[-*•]\s+/.test(line))) {
+          return (
+            <ul key={i} className="list-disc pl-5 space-y-1">
+              {lines.map((line, j) => (
+                <li key={j}>{line.replace(/^\s*[-*•]\s+/, "")}</li>
+              ))}
+            </ul>
+          );
+        }
+        return (
+          <p key={i} className="whitespace-pre-line">
+            {block}
+          </p>
+        );
+      })}
+    </div>
+  );
+};
+
+const PersonaDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const [searchParams] = useSearchParams();
+  const personaId = Number(id);
+  const validId = Number.isInteger(personaId) && personaId > 0;
+  // The list only drives prev/next (and is usually already cached by the dashboard),
+  // so the detail view still works if it fails
+  const personaQuery = usePersonaQuery(personaId);
+  const personasQuery = usePersonasQuery();
+  const personas = personasQuery.data ?? EMPTY_PERSONAS;
+  const persona = personaQuery.data ?? null;
+
+  const state: LoadState = !validId || isPersonaNotFound(personaQuery.error)
+    ? "not-found"
+    : personaQuery.isPending
+      ? "loading"
+      : personaQuery.isError
+        ? "error"
+        : "ready";
+  const error = personaQuery.error?.message || "Failed to fetch persona details";
+
+  // Carry the list's search/filter/sort state so "back" and prev/next follow the same list
+  const listQuery = searchParams.toString() ? `?${searchParams.toString()}` : "";
+
+  const { previous, next, position } = useMemo(() => {
+    const ordered = filterAndSortPersonas(personas, parsePersonaFilters(searchParams));
+    const index = ordered.findIndex((p) => p.id === personaId);
+    return {
+      previous: index > 0 ? ordered[index - 1] : null,
+      next: index >= 0 && index < ordered.length - 1 ? ordered[index + 1] : null,
+      position: index >= 0 ? { index: index + 1, total: ordered.length } : null,
+    };
+  }, [personas, searchParams, personaId]);
+
+  const backLink = (
+    <Button variant="ghost" asChild>
+      <Link to={`/dashboard${listQuery}`}>
+        <ArrowLeft className="mr-2 h-4 w-4" />
+        Back to personas
+      </Link>
+    </Button>
+  );
+
+  const renderBody = () => {
+    if (state === "loading") {
+      return (
+        <Card className="p-8 border-2 shadow-lg space-y-4">
+          <div className="flex items-center gap-4">
+            <Skeleton className="h-16 w-16 rounded-full" />
+            <div className="space-y-2 flex-1">
+              <Skeleton className="h-6 w-1/3" />
+              <Skeleton className="h-4 w-1/2" />
+            </div>
+          </div>
+          <Skeleton className="h-24 w-full" />
+          <Skeleton className="h-16 w-full" />
+        </Card>
+      );
+    }
+
+    if (state === "not-found") {
+      return (
+        <Card className="p-8 border-2 shadow-lg text-center">
+          <UserX className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+          <h2 className="text-xl font-semibold mb-2">Persona not found</h2>
+          <p className="text-muted-foreground">
+            It may have been deleted, or it belongs to a different organization.
+          </p>
+        </Card>
+      );
+    }
+
+    if (state === "error" || !persona) {
+      return (
+        <Card className="p-8 border-2 shadow-lg text-center">
+          <AlertTriangle className="h-12 w-12 mx-auto mb-4 text-destructive" />
+          <h2 className="text-xl font-semibold mb-2">Couldn't load this persona</h2>
+          <p className="text-muted-foreground mb-4">{error}</p>
+          <Button variant="outline" onClick={() => personaQuery.refetch()}>
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Try again
+          </Button>
+        </Card>
+      );
+    }
+
+    const attributes = ATTRIBUTES.filter(({ key }) => persona[key]);
+
+    return (
+      <Card className="p-8 border-2 shadow-lg space-y-6">
+        <div className="flex items-center gap-4">
+          <div className="w-16 h-16 rounded-full bg-gradient-primary flex items-center justify-center">
+            <User className="h-8 w-8 text-primary-foreground" />
+          </div>
+          <div className="flex-1">
+            <h1 className="text-3xl font-bold">{persona.name}</h1>
+            {persona.short_description && (
+              <p className="text-muted-foreground mt-1">{persona.short_description}</p>
+            )}
+          </div>
+          {persona.category && <Badge variant="secondary">{persona.category}</Badge>}
+        </div>
+
+        {persona.long_description && (
+          <section>
+            <h2 className="text-lg font-semibold mb-2">Description</h2>
+            <FormattedText text={persona.long_description} />
+          </section>
+        )}
+
+        {attributes.length > 0 && (
+          <section>
+            <h2 className="text-lg font-semibold mb-2">Profile</h2>
+            <dl className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+              {attributes.map(({ key, label }) => (
+                <div key={key} className="rounded-lg bg-muted p-3">
+                  <dt className="text-xs font-semibold text-muted-foreground">{label}</dt>
+                  <dd className="text-sm mt-1">{String(persona[key])}</dd>
+                </div>
+              ))}
+            </dl>
+          </section>
+        )}
+
+        <Separator />
+
+        <dl className="grid gap-2 sm:grid-cols-3 text-xs text-muted-foreground">
+          <div>
+            <dt className="font-semibold">ID</dt>
+            <dd>{persona.id}</dd>
+          </div>
+          <div>
+            <dt className="font-semibold">Created</dt>
+            <dd>{formatTimestamp(persona.created_at)}</dd>
+          </div>
+          <div>
+            <dt className="font-semibold">Last updated</dt>
+            <dd>{formatTimestamp(persona.updated_at)}</dd>
+          </div>
+        </dl>
+      </Card>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-hero">
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <div className="flex items-center justify-between mb-6 gap-2">
+          {backLink}
+          <div className="flex items-center gap-2">
+            {position && (
+              <span className="text-sm text-muted-foreground">
+                {position.index} of {position.total}
+              </span>
+            )}
+            <Button variant="outline" size="sm" disabled={!previous} asChild={!!previous}>
+              {previous ? (
+                <Link to={`/dashboard/personas/${previous.id}${listQuery}`} aria-label={`Previous: ${previous.name}`}>
+                  <ChevronLeft className="h-4 w-4" />
+                  Previous
+                </Link>
+              ) : (
+                <span>
+                  <ChevronLeft className="h-4 w-4" />
+                  Previous
+                </span>
+              )}
+            </Button>
+            <Button variant="outline" size="sm" disabled={!next} asChild={!!next}>
+              {next ? (
+                <Link to={`/dashboard/personas/${next.id}${listQuery}`} aria-label={`Next: ${next.name}`}>
+                  Next
+                  <ChevronRight className="h-4 w-4" />
+                </Link>
+              ) : (
+                <span>
+                  Next
+                  <ChevronRight className="h-4 w-4" />
+                </span>
+              )}
+            </Button>
+          </div>
+        </div>
+
+        {renderBody()}
+      </div>
+    </div>
+  );
+};
+
+export default PersonaDetail;